@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_OUT_DIR, parseCliOptions } from './cliOptions'
+
+describe('parseCliOptions', () => {
+  it('should default to every live spec from wago.tools', () => {
+    expect(parseCliOptions([])).toEqual({
+      specIds: [],
+      classIds: [],
+      outDir: DEFAULT_OUT_DIR,
+      source: 'remote',
+      branch: 'live',
+      dryRun: false,
+      help: false,
+    })
+  })
+
+  it('should collect comma-separated and repeated IDs', () => {
+    const options = parseCliOptions(['--spec', '254,253', '--spec', '62', '--class', '3'])
+
+    expect(options.specIds).toEqual([254, 253, 62])
+    expect(options.classIds).toEqual([3])
+  })
+
+  it('should read the source, build, branch and output options', () => {
+    const options = parseCliOptions([
+      '--source', 'local',
+      '--csv-dir', 'dumps',
+      '--build', '12.0.1.65337',
+      '--branch', 'ptr',
+      '--out', 'tmp/specs',
+      '--dry-run',
+    ])
+
+    expect(options).toMatchObject({
+      source: 'local',
+      csvDir: 'dumps',
+      build: '12.0.1.65337',
+      branch: 'ptr',
+      outDir: 'tmp/specs',
+      dryRun: true,
+    })
+  })
+
+  it('should reject unknown flags and invalid values', () => {
+    expect(() => parseCliOptions(['--specs', '254'])).toThrow('Unknown option "--specs"')
+    expect(() => parseCliOptions(['--spec', 'marksmanship'])).toThrow('--spec expects comma-separated IDs')
+    expect(() => parseCliOptions(['--spec'])).toThrow('--spec needs a value')
+    expect(() => parseCliOptions(['--out', '--dry-run'])).toThrow('--out needs a value')
+    expect(() => parseCliOptions(['--source', 'wago'])).toThrow('--source must be remote or local')
+    expect(() => parseCliOptions(['--branch', 'xptr'])).toThrow('--branch must be one of live, ptr, beta')
+    expect(() => parseCliOptions(['--build', '65337'])).toThrow('--build expects a game build')
+  })
+
+  it('should need a CSV directory for a local source', () => {
+    expect(() => parseCliOptions(['--source', 'local'])).toThrow('--source local needs --csv-dir')
+  })
+})
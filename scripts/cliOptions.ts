@@ -0,0 +1,125 @@
+/**
+ * Command-line options of the data fetch script
+ */
+
+import { BRANCHES, type Branch } from './db2Source'
+
+export const USAGE = `Usage: npm run fetch-data -- [options]
+
+Options:
+  --spec <ids>       Only generate these spec IDs (comma-separated, repeatable)
+  --class <ids>      Only generate specs of these class IDs (comma-separated, repeatable)
+  --out <dir>        Spec data directory (default: src/data/specs)
+  --source <source>  remote (wago.tools, default) or local (CSV dumps in --csv-dir)
+  --csv-dir <dir>    CSV dump directory: read with --source local, saved to with remote
+  --build <build>    Game build to use, e.g. 12.0.1.65337 (default: latest on the branch)
+  --branch <branch>  live (default), ptr or beta
+  --dry-run          Print what would change without writing anything
+  --help             Show this message`
+
+export type SourceType = 'remote' | 'local'
+
+export interface FetchOptions {
+  specIds: number[] // Empty = every spec
+  classIds: number[] // Empty = every class
+  outDir: string
+  source: SourceType
+  csvDir?: string
+  build?: string
+  branch: Branch
+  dryRun: boolean
+  help: boolean
+}
+
+export const DEFAULT_OUT_DIR = 'src/data/specs'
+
+// "1,2" -> [1, 2]
+function parseIds(flag: string, value: string): number[] {
+  return value.split(',').map(part => {
+    const id = Number(part.trim())
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new Error(`${flag} expects comma-separated IDs, got "${value}"`)
+    }
+    return id
+  })
+}
+
+/**
+ * Parse the script's arguments (process.argv without the node and script paths).
+ * Throws on unknown flags and invalid values so typos don't silently regenerate everything.
+ */
+export function parseCliOptions(args: string[]): FetchOptions {
+  const options: FetchOptions = {
+    specIds: [],
+    classIds: [],
+    outDir: DEFAULT_OUT_DIR,
+    source: 'remote',
+    branch: 'live',
+    dryRun: false,
+    help: false,
+  }
+
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i]
+    const takeValue = () => {
+      const value = args[++i]
+      if (value === undefined || value.startsWith('--')) {
+        throw new Error(`${flag} needs a value`)
+      }
+      return value
+    }
+
+    switch (flag) {
+      case '--spec':
+        options.specIds.push(...parseIds(flag, takeValue()))
+        break
+      case '--class':
+        options.classIds.push(...parseIds(flag, takeValue()))
+        break
+      case '--out':
+        options.outDir = takeValue()
+        break
+      case '--source': {
+        const source = takeValue()
+        if (source !== 'remote' && source !== 'local') {
+          throw new Error(`--source must be remote or local, got "${source}"`)
+        }
+        options.source = source
+        break
+      }
+      case '--csv-dir':
+        options.csvDir = takeValue()
+        break
+      case '--build': {
+        const build = takeValue()
+        if (!/^\d+\.\d+\.\d+\.\d+$/.test(build)) {
+          throw new Error(`--build expects a game build like 12.0.1.65337, got "${build}"`)
+        }
+        options.build = build
+        break
+      }
+      case '--branch': {
+        const branch = takeValue()
+        if (!BRANCHES.includes(branch as Branch)) {
+          throw new Error(`--branch must be one of ${BRANCHES.join(', ')}, got "${branch}"`)
+        }
+        options.branch = branch as Branch
+        break
+      }
+      case '--dry-run':
+        options.dryRun = true
+        break
+      case '--help':
+        options.help = true
+        break
+      default:
+        throw new Error(`Unknown option "${flag}"`)
+    }
+  }
+
+  if (options.source === 'local' && !options.csvDir) {
+    throw new Error('--source local needs --csv-dir <dir> to read the CSVs from')
+  }
+
+  return options
+}
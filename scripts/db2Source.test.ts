@@ -0,0 +1,44 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { TABLES, createLocalSource, loadTables, saveTables, type TableCsvs } from './db2Source'
+
+const FIXTURE_DIR = join(__dirname, 'fixtures', 'db2')
+
+describe('createLocalSource', () => {
+  let tempDir: string | undefined
+
+  afterEach(() => {
+    if (tempDir) rmSync(tempDir, { recursive: true, force: true })
+    tempDir = undefined
+  })
+
+  it('should read every table of the fixture build', async () => {
+    const source = createLocalSource(FIXTURE_DIR)
+    const csvs = await loadTables(source, await source.resolveGameBuild())
+
+    expect(Object.keys(csvs)).toEqual([...TABLES])
+    expect(csvs.TraitSubTree.split('\n')[0]).toBe('ID,Name_lang,TraitTreeID')
+  })
+
+  it('should read back saved tables, newest build first', async () => {
+    tempDir = mkdtempSync(join(tmpdir(), 'db2-'))
+    const csvsFor = (gameBuild: string) =>
+      Object.fromEntries(TABLES.map(table => [table, `ID\n${gameBuild}\n`])) as TableCsvs
+
+    saveTables(tempDir, '12.0.1.9999', csvsFor('12.0.1.9999'))
+    saveTables(tempDir, '12.0.1.65337', csvsFor('12.0.1.65337'))
+
+    const source = createLocalSource(tempDir)
+    const gameBuild = await source.resolveGameBuild()
+    expect(gameBuild).toBe('12.0.1.65337')
+    expect(await loadTables(source, gameBuild)).toEqual(csvsFor('12.0.1.65337'))
+  })
+
+  it('should fail on a missing build or table', async () => {
+    const source = createLocalSource(join(FIXTURE_DIR, 'missing'))
+    await expect(source.resolveGameBuild()).rejects.toThrow('No game build directories')
+    await expect(createLocalSource(FIXTURE_DIR).readTable('TraitNode', '9.9.9.9')).rejects.toThrow('Missing TraitNode')
+  })
+})
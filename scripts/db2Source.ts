@@ -0,0 +1,139 @@
+/**
+ * Where the DB2 tables come from: wago.tools, or a local directory of CSV dumps
+ *
+ * A dump directory holds one subdirectory per game build, with one CSV per table:
+ *   <dir>/12.0.1.65337/TraitNode.csv
+ */
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync, readdirSync } from 'fs'
+import { join } from 'path'
+
+const WAGO_BASE = 'https://wago.tools/db2'
+const WAGO_API = 'https://wago.tools/api'
+
+// Tables we need to fetch
+export const TABLES = [
+  'ChrSpecialization',
+  'TraitTree',
+  'TraitTreeLoadout',
+  'TraitNode',
+  'TraitNodeEntry',
+  'TraitNodeXTraitNodeEntry',
+  'TraitDefinition',
+  'TraitEdge',
+  'SpellName',
+  'SpellMisc',
+  'TraitCond',
+  'TraitNodeXTraitCond',
+  'TraitNodeGroupXTraitCond',
+  'TraitNodeGroupXTraitNode',
+  'SpecSetMember',
+  'TraitSubTree',
+  'TraitCost',
+  'TraitNodeXTraitCost',
+  'TraitNodeGroupXTraitCost',
+  'TraitTreeXTraitCurrency',
+  'TraitCurrencySource',
+] as const
+
+export type TableName = (typeof TABLES)[number]
+
+export const BRANCHES = ['live', 'ptr', 'beta'] as const
+
+export type Branch = (typeof BRANCHES)[number]
+
+// wago.tools product name of each branch
+const BRANCH_PRODUCTS: Record<Branch, string> = {
+  live: 'wow',
+  ptr: 'wowt',
+  beta: 'wow_beta',
+}
+
+// Raw CSV text of every table
+export type TableCsvs = Record<TableName, string>
+
+export interface TableSource {
+  name: string
+  resolveGameBuild(): Promise<string>
+  readTable(table: TableName, gameBuild: string): Promise<string>
+}
+
+const buildNumber = (gameBuild: string) => Number(gameBuild.split('.').pop())
+
+// Latest game build on a branch, e.g. "12.0.1.65337"
+async function fetchGameBuild(branch: Branch): Promise<string> {
+  const response = await fetch(`${WAGO_API}/builds/latest`)
+  if (!response.ok) {
+    throw new Error(`Failed to fetch latest build: ${response.status}`)
+  }
+
+  const product = BRANCH_PRODUCTS[branch]
+  const builds = await response.json() as Record<string, { version: string }>
+  if (!builds[product]?.version) {
+    throw new Error(`Latest build response has no ${branch} (${product}) version`)
+  }
+  return builds[product].version
+}
+
+async function fetchCSV(table: TableName, gameBuild: string): Promise<string> {
+  const url = `${WAGO_BASE}/${table}/csv?build=${gameBuild}`
+  console.log(`Fetching ${table}...`)
+
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${table}: ${response.status}`)
+  }
+
+  return response.text()
+}
+
+export function createRemoteSource(branch: Branch = 'live'): TableSource {
+  return {
+    name: `wago.tools (${branch})`,
+    resolveGameBuild: () => fetchGameBuild(branch),
+    readTable: fetchCSV,
+  }
+}
+
+/**
+ * Read tables from a dump directory. Without a pinned build, the newest build
+ * in the directory is used.
+ */
+export function createLocalSource(dir: string): TableSource {
+  return {
+    name: dir,
+    async resolveGameBuild() {
+      const builds = existsSync(dir)
+        ? readdirSync(dir, { withFileTypes: true })
+          .filter(entry => entry.isDirectory() && /^\d+(\.\d+)*$/.test(entry.name))
+          .map(entry => entry.name)
+        : []
+      if (builds.length === 0) {
+        throw new Error(`No game build directories in ${dir}`)
+      }
+      return builds.sort((a, b) => buildNumber(b) - buildNumber(a))[0]
+    },
+    async readTable(table, gameBuild) {
+      const file = join(dir, gameBuild, `${table}.csv`)
+      if (!existsSync(file)) {
+        throw new Error(`Missing ${table} for build ${gameBuild}: ${file}`)
+      }
+      return readFileSync(file, 'utf-8')
+    },
+  }
+}
+
+// Read every table from the same build so the data is consistent
+export async function loadTables(source: TableSource, gameBuild: string): Promise<TableCsvs> {
+  const csvs = await Promise.all(TABLES.map(table => source.readTable(table, gameBuild)))
+  return Object.fromEntries(TABLES.map((table, i) => [table, csvs[i]])) as TableCsvs
+}
+
+// Write tables to a dump directory, in the layout createLocalSource reads
+export function saveTables(dir: string, gameBuild: string, tables: TableCsvs) {
+  const buildDir = join(dir, gameBuild)
+  mkdirSync(buildDir, { recursive: true })
+  for (const table of TABLES) {
+    writeFileSync(join(buildDir, `${table}.csv`), tables[table])
+  }
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest'
+import { join } from 'path'
+import { createLocalSource, loadTables } from './db2Source'
+import { generateSpecData, parseCSV, parseTables } from './generateSpecData'
+
+const FIXTURE_DIR = join(__dirname, 'fixtures', 'db2')
+
+async function generateFixtureData() {
+  const source = createLocalSource(FIXTURE_DIR)
+  const gameBuild = await source.resolveGameBuild()
+  return generateSpecData(parseTables(await loadTables(source, gameBuild)), gameBuild)
+}
+
+describe('parseCSV', () => {
+  it('should parse numbers and keep text', () => {
+    expect(parseCSV('ID,Name_lang\n1,Kill Command\n2,\n')).toEqual([
+      { ID: 1, Name_lang: 'Kill Command' },
+      { ID: 2, Name_lang: '' },
+    ])
+  })
+
+  it('should handle quoted commas, quotes and newlines', () => {
+    const rows = parseCSV<{ Name_lang: string }>('ID,Name_lang\r\n1,"A, B"\r\n2,"Say ""hi"""\r\n3,"Two\nlines"')
+    expect(rows.map(row => row.Name_lang)).toEqual(['A, B', 'Say "hi"', 'Two\nlines'])
+  })
+})
+
+describe('generateSpecData', () => {
+  it('should generate each player spec with a tree', async () => {
+    const specDataList = await generateFixtureData()
+
+    expect(specDataList.map(s => [s.specId, s.specName, s.className, s.treeId])).toEqual([
+      [253, 'Beast Mastery', 'Hunter', 1],
+      [254, 'Marksmanship', 'Hunter', 1],
+    ])
+    expect(specDataList[0].gameBuild).toBe('1.0.0.1')
+  })
+
+  it('should sort the tree nodes by ID and leave out other trees', async () => {
+    const [specData] = await generateFixtureData()
+    expect(specData.nodes.map(n => n.id)).toEqual([100, 101, 102, 200, 201, 300, 301, 302, 400])
+  })
+
+  it('should name and rank entries in index order', async () => {
+    const [specData] = await generateFixtureData()
+    const nodeById = new Map(specData.nodes.map(n => [n.id, n]))
+
+    expect(nodeById.get(101)).toMatchObject({ maxRanks: 2, entries: [{ name: 'Natural Mending', maxRanks: 2 }] })
+    expect(nodeById.get(102)?.entries.map(e => [e.entryIndex, e.name])).toEqual([[0, 'Binding Shot'], [1, 'Intimidation']])
+    expect(nodeById.get(100)?.entries[0]).toEqual({
+      id: 1000,
+      definitionId: 2000,
+      spellId: 3000,
+      name: 'Kill Command',
+      iconId: 4000,
+      maxRanks: 1,
+      entryIndex: 0,
+    })
+  })
+
+  it('should prefer definition override names and icons', async () => {
+    const [specData] = await generateFixtureData()
+    const selector = specData.nodes.find(n => n.id === 400)
+    expect(selector?.entries.map(e => [e.name, e.iconId])).toEqual([['Pack Leader', 5400], ['Dark Ranger', 5401]])
+  })
+
+  it('should restrict nodes to specs from node and group conditions', async () => {
+    const [specData] = await generateFixtureData()
+    const nodeById = new Map(specData.nodes.map(n => [n.id, n]))
+
+    expect(nodeById.get(200)?.allowedSpecs).toEqual([253])
+    expect(nodeById.get(201)?.allowedSpecs).toEqual([254])
+    expect(nodeById.get(100)?.allowedSpecs).toBeUndefined()
+  })
+
+  it('should collect the tree edges and hero trees', async () => {
+    const [specData] = await generateFixtureData()
+
+    expect(specData.edges).toEqual([
+      { fromNodeId: 100, toNodeId: 101, type: 2 },
+      { fromNodeId: 100, toNodeId: 102, type: 2 },
+      { fromNodeId: 300, toNodeId: 301, type: 2 },
+    ])
+    expect(specData.heroTrees).toEqual([
+      { id: 50, name: 'Pack Leader', nodeIds: [300, 301] },
+      { id: 51, name: 'Dark Ranger', nodeIds: [302] },
+    ])
+  })
+
+  it('should record the hero tree each selector entry picks', async () => {
+    const [specData] = await generateFixtureData()
+    const selector = specData.nodes.find(n => n.id === 400)
+
+    expect(selector?.entries.map(e => [e.id, e.heroTreeId])).toEqual([[1400, 51], [1401, 50]])
+    expect(specData.nodes.find(n => n.id === 300)?.entries[0]).not.toHaveProperty('heroTreeId')
+  })
+
+  it('should record the currency each node costs', async () => {
+    const [specData] = await generateFixtureData()
+    const currencies = Object.fromEntries(specData.nodes.map(n => [n.id, n.currencyId]))
+
+    expect(currencies).toEqual({ 100: undefined, 101: 1, 102: 1, 200: 2, 201: undefined, 300: 3, 301: 3, 302: 3, 400: undefined })
+  })
+
+  it('should place every node in the class, spec or hero tree', async () => {
+    const [specData] = await generateFixtureData()
+    const sections = Object.fromEntries(specData.nodes.map(n => [n.id, n.section]))
+
+    // 100 is free but shares a node group with 101; 201 is free and restricted to a spec
+    expect(sections).toEqual({
+      100: 'class',
+      101: 'class',
+      102: 'class',
+      200: 'spec',
+      201: 'spec',
+      300: 'hero',
+      301: 'hero',
+      302: 'hero',
+      400: 'hero',
+    })
+  })
+
+  it('should extract point gates from node and group conditions', async () => {
+    const [beastMastery, marksmanship] = await generateFixtureData()
+    const classGate = { id: 3, currencyId: 1, requiredPoints: 8, nodeIds: [101, 102] }
+
+    expect(beastMastery.gates).toEqual([classGate])
+    expect(marksmanship.gates).toEqual([
+      classGate,
+      { id: 4, currencyId: 2, requiredPoints: 20, nodeIds: [201] },
+    ])
+  })
+
+  it('should sum the points available in each section from the currency sources', async () => {
+    const [specData] = await generateFixtureData()
+
+    expect(specData.pointLimits).toEqual({ class: 31, spec: 30, hero: 13 })
+  })
+
+  it('should give specs sharing a tree the same fingerprint', async () => {
+    const [beastMastery, marksmanship] = await generateFixtureData()
+
+    expect(beastMastery.fingerprint).toMatch(/^[0-9a-f]{32}$/)
+    expect(marksmanship.fingerprint).toBe(beastMastery.fingerprint)
+  })
+
+  it('should only generate the filtered specs', async () => {
+    const source = createLocalSource(FIXTURE_DIR)
+    const tables = parseTables(await loadTables(source, '1.0.0.1'))
+
+    expect(generateSpecData(tables, '1.0.0.1', { specIds: [254] }).map(s => s.specId)).toEqual([254])
+    expect(generateSpecData(tables, '1.0.0.1', { classIds: [3] }).map(s => s.specId)).toEqual([253, 254])
+    expect(generateSpecData(tables, '1.0.0.1', { classIds: [8] })).toEqual([])
+  })
+
+  it('should be deterministic', async () => {
+    expect(await generateFixtureData()).toEqual(await generateFixtureData())
+  })
+})
@@ -0,0 +1,747 @@
+/**
+ * Turns DB2 table rows into the spec JSON the app loads
+ *
+ * Pure: no network or file access, so the same tables always give the same output.
+ */
+
+import { createHash } from 'crypto'
+import type { TableCsvs, TableName } from './db2Source'
+
+interface ChrSpecialization {
+  ID: number
+  Name_lang: string
+  ClassID: number
+}
+
+interface TraitTree {
+  ID: number
+  Field_12_0_1_65337_000_lang: string // Name field
+}
+
+interface TraitTreeLoadout {
+  ID: number
+  TraitTreeID: number
+  ChrSpecializationID: number
+}
+
+interface TraitNode {
+  ID: number
+  TraitTreeID: number
+  PosX: number
+  PosY: number
+  Type: number
+  Flags: number
+  TraitSubTreeID: number
+}
+
+interface TraitNodeEntry {
+  ID: number
+  TraitDefinitionID: number
+  MaxRanks: number
+  NodeEntryType: number
+  TraitSubTreeID: number
+}
+
+interface TraitNodeXTraitNodeEntry {
+  ID: number
+  TraitNodeID: number
+  TraitNodeEntryID: number
+  _Index: number
+}
+
+interface TraitDefinition {
+  ID: number
+  SpellID: number
+  OverrideIcon: number
+  OverrideName_lang: string
+}
+
+interface TraitEdge {
+  ID: number
+  VisualStyle: number
+  LeftTraitNodeID: number
+  RightTraitNodeID: number
+  Type: number
+}
+
+interface SpellName {
+  ID: number
+  Name_lang: string
+}
+
+interface SpellMisc {
+  ID: number
+  SpellID: number
+  SpellIconFileDataID: number
+}
+
+interface TraitCond {
+  ID: number
+  CondType: number
+  TraitTreeID: number
+  SpecSetID: number
+  TraitNodeGroupID: number
+  TraitNodeID: number
+  TraitCurrencyID: number
+  SpentAmountRequired: number
+}
+
+interface TraitNodeXTraitCond {
+  ID: number
+  TraitCondID: number
+  TraitNodeID: number
+}
+
+interface TraitNodeGroupXTraitCond {
+  ID: number
+  TraitCondID: number
+  TraitNodeGroupID: number
+}
+
+interface TraitNodeGroupXTraitNode {
+  ID: number
+  TraitNodeGroupID: number
+  TraitNodeID: number
+  _Index: number
+}
+
+interface SpecSetMember {
+  ID: number
+  ChrSpecializationID: number
+  SpecSet: number
+}
+
+interface TraitSubTree {
+  ID: number
+  Name_lang: string
+  TraitTreeID: number
+}
+
+interface TraitCost {
+  ID: number
+  Amount: number
+  TraitCurrencyID: number
+}
+
+interface TraitNodeXTraitCost {
+  ID: number
+  TraitNodeID: number
+  TraitCostID: number
+}
+
+interface TraitNodeGroupXTraitCost {
+  ID: number
+  TraitNodeGroupID: number
+  TraitCostID: number
+}
+
+interface TraitTreeXTraitCurrency {
+  ID: number
+  _Index: number
+  TraitTreeID: number
+  TraitCurrencyID: number
+}
+
+interface TraitCurrencySource {
+  ID: number
+  TraitCurrencyID: number
+  Amount: number
+}
+
+// Parsed rows of every table
+export interface TableRows {
+  ChrSpecialization: ChrSpecialization[]
+  TraitTree: TraitTree[]
+  TraitTreeLoadout: TraitTreeLoadout[]
+  TraitNode: TraitNode[]
+  TraitNodeEntry: TraitNodeEntry[]
+  TraitNodeXTraitNodeEntry: TraitNodeXTraitNodeEntry[]
+  TraitDefinition: TraitDefinition[]
+  TraitEdge: TraitEdge[]
+  SpellName: SpellName[]
+  SpellMisc: SpellMisc[]
+  TraitCond: TraitCond[]
+  TraitNodeXTraitCond: TraitNodeXTraitCond[]
+  TraitNodeGroupXTraitCond: TraitNodeGroupXTraitCond[]
+  TraitNodeGroupXTraitNode: TraitNodeGroupXTraitNode[]
+  SpecSetMember: SpecSetMember[]
+  TraitSubTree: TraitSubTree[]
+  TraitCost: TraitCost[]
+  TraitNodeXTraitCost: TraitNodeXTraitCost[]
+  TraitNodeGroupXTraitCost: TraitNodeGroupXTraitCost[]
+  TraitTreeXTraitCurrency: TraitTreeXTraitCurrency[]
+  TraitCurrencySource: TraitCurrencySource[]
+}
+
+// Output format for our app
+export interface SpecTalentData {
+  specId: number
+  specName: string
+  className: string
+  treeId: number
+  gameBuild: string
+  fingerprint: string
+  nodes: TalentNodeData[]
+  edges: TalentEdgeData[]
+  heroTrees: HeroTreeData[]
+  gates: TalentGateData[]
+  pointLimits: Partial<Record<TreeSection, number>>
+}
+
+interface TalentGateData {
+  id: number
+  currencyId: number
+  requiredPoints: number
+  nodeIds: number[]
+}
+
+interface HeroTreeData {
+  id: number
+  name: string
+  nodeIds: number[]
+}
+
+type TreeSection = 'class' | 'spec' | 'hero'
+
+interface TalentNodeData {
+  id: number
+  posX: number
+  posY: number
+  type: number
+  maxRanks: number
+  section: TreeSection
+  entries: TalentEntryData[]
+  allowedSpecs?: number[] // Specs that can use this node (empty/undefined = all specs)
+  currencyId?: number // Currency the node's ranks cost (undefined = free)
+}
+
+interface TalentEntryData {
+  id: number
+  definitionId: number
+  spellId: number
+  name: string
+  iconId: number
+  maxRanks: number
+  entryIndex: number
+  heroTreeId?: number // Hero tree a selector entry picks
+}
+
+interface TalentEdgeData {
+  fromNodeId: number
+  toNodeId: number
+  type: number
+}
+
+export function parseCSV<T>(csv: string): T[] {
+  // Handle multi-line quoted fields by parsing character by character
+  const records: string[][] = []
+  let currentRecord: string[] = []
+  let currentField = ''
+  let inQuotes = false
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i]
+    const nextChar = csv[i + 1]
+
+    if (char === '"') {
+      if (inQuotes && nextChar === '"') {
+        // Escaped quote
+        currentField += '"'
+        i++
+      } else {
+        // Toggle quote mode
+        inQuotes = !inQuotes
+      }
+    } else if (char === ',' && !inQuotes) {
+      currentRecord.push(currentField)
+      currentField = ''
+    } else if ((char === '\n' || (char === '\r' && nextChar === '\n')) && !inQuotes) {
+      // End of record
+      if (char === '\r') i++ // Skip \n in \r\n
+      currentRecord.push(currentField)
+      if (currentRecord.length > 1 || currentRecord[0] !== '') {
+        records.push(currentRecord)
+      }
+      currentRecord = []
+      currentField = ''
+    } else if (char === '\r' && !inQuotes) {
+      // Handle standalone \r as newline
+      currentRecord.push(currentField)
+      if (currentRecord.length > 1 || currentRecord[0] !== '') {
+        records.push(currentRecord)
+      }
+      currentRecord = []
+      currentField = ''
+    } else {
+      currentField += char
+    }
+  }
+
+  // Don't forget the last field/record
+  if (currentField || currentRecord.length > 0) {
+    currentRecord.push(currentField)
+    if (currentRecord.length > 1 || currentRecord[0] !== '') {
+      records.push(currentRecord)
+    }
+  }
+
+  if (records.length < 2) return []
+
+  const headers = records[0]
+  const results: T[] = []
+
+  for (let i = 1; i < records.length; i++) {
+    const values = records[i]
+    const obj: Record<string, string | number> = {}
+
+    headers.forEach((header, index) => {
+      const value = values[index] || ''
+      // Try to parse as number
+      const num = Number(value)
+      obj[header] = isNaN(num) || value === '' ? value : num
+    })
+
+    results.push(obj as T)
+  }
+
+  return results
+}
+
+// Parse one table's CSV into its row type
+function parseTable<T extends TableName>(csvs: TableCsvs, table: T): TableRows[T][number][] {
+  return parseCSV<TableRows[T][number]>(csvs[table])
+}
+
+export function parseTables(csvs: TableCsvs): TableRows {
+  return {
+    ChrSpecialization: parseTable(csvs, 'ChrSpecialization'),
+    TraitTree: parseTable(csvs, 'TraitTree'),
+    TraitTreeLoadout: parseTable(csvs, 'TraitTreeLoadout'),
+    TraitNode: parseTable(csvs, 'TraitNode'),
+    TraitNodeEntry: parseTable(csvs, 'TraitNodeEntry'),
+    TraitNodeXTraitNodeEntry: parseTable(csvs, 'TraitNodeXTraitNodeEntry'),
+    TraitDefinition: parseTable(csvs, 'TraitDefinition'),
+    TraitEdge: parseTable(csvs, 'TraitEdge'),
+    SpellName: parseTable(csvs, 'SpellName'),
+    SpellMisc: parseTable(csvs, 'SpellMisc'),
+    TraitCond: parseTable(csvs, 'TraitCond'),
+    TraitNodeXTraitCond: parseTable(csvs, 'TraitNodeXTraitCond'),
+    TraitNodeGroupXTraitCond: parseTable(csvs, 'TraitNodeGroupXTraitCond'),
+    TraitNodeGroupXTraitNode: parseTable(csvs, 'TraitNodeGroupXTraitNode'),
+    SpecSetMember: parseTable(csvs, 'SpecSetMember'),
+    TraitSubTree: parseTable(csvs, 'TraitSubTree'),
+    TraitCost: parseTable(csvs, 'TraitCost'),
+    TraitNodeXTraitCost: parseTable(csvs, 'TraitNodeXTraitCost'),
+    TraitNodeGroupXTraitCost: parseTable(csvs, 'TraitNodeGroupXTraitCost'),
+    TraitTreeXTraitCurrency: parseTable(csvs, 'TraitTreeXTraitCurrency'),
+    TraitCurrencySource: parseTable(csvs, 'TraitCurrencySource'),
+  }
+}
+
+/**
+ * Fingerprint of a tree's node layout: node IDs in export order with their entry IDs.
+ * Any patch that adds, removes, or reorders nodes or entries changes the fingerprint.
+ * It is our own hash, not the game's tree hash, so talent strings can't be checked against it.
+ */
+export function computeTreeFingerprint(nodes: TalentNodeData[]): string {
+  const layout = nodes.map(n => `${n.id}:${n.entries.map(e => e.id).join(',')}`).join(';')
+  return createHash('md5').update(layout).digest('hex')
+}
+
+// Class IDs to names
+const CLASS_NAMES: Record<number, string> = {
+  1: 'Warrior',
+  2: 'Paladin',
+  3: 'Hunter',
+  4: 'Rogue',
+  5: 'Priest',
+  6: 'Death Knight',
+  7: 'Shaman',
+  8: 'Mage',
+  9: 'Warlock',
+  10: 'Monk',
+  11: 'Druid',
+  12: 'Demon Hunter',
+  13: 'Evoker',
+}
+
+// Which specs to generate; an empty or missing list doesn't filter
+export interface SpecFilter {
+  specIds?: number[]
+  classIds?: number[]
+}
+
+/**
+ * Build the talent data of every player spec from one game build's tables.
+ */
+export function generateSpecData(tables: TableRows, gameBuild: string, filter: SpecFilter = {}): SpecTalentData[] {
+  const {
+    ChrSpecialization: specs,
+    TraitTreeLoadout: loadouts,
+    TraitNode: nodes,
+    TraitNodeEntry: entries,
+    TraitNodeXTraitNodeEntry: nodeEntries,
+    TraitDefinition: definitions,
+    TraitEdge: edges,
+    SpellName: spellNames,
+    SpellMisc: spellMiscs,
+    TraitCond: traitConds,
+    TraitNodeXTraitCond: traitNodeXTraitConds,
+    TraitNodeGroupXTraitCond: traitNodeGroupXTraitConds,
+    TraitNodeGroupXTraitNode: traitNodeGroupXTraitNodes,
+    SpecSetMember: specSetMembers,
+    TraitSubTree: traitSubTrees,
+    TraitCost: traitCosts,
+    TraitNodeXTraitCost: traitNodeXTraitCosts,
+    TraitNodeGroupXTraitCost: traitNodeGroupXTraitCosts,
+    TraitTreeXTraitCurrency: treeCurrencies,
+    TraitCurrencySource: currencySources,
+  } = tables
+
+  // Build lookup maps
+  const nodeById = new Map(nodes.map(n => [n.ID, n]))
+  const entryById = new Map(entries.map(e => [e.ID, e]))
+  const definitionById = new Map(definitions.map(d => [d.ID, d]))
+  const spellNameById = new Map(spellNames.map(s => [s.ID, s.Name_lang]))
+  // Map spell ID to icon FileDataID
+  const spellIconById = new Map(spellMiscs.map(s => [s.SpellID, s.SpellIconFileDataID]))
+
+  // Map nodes to their entries
+  const nodeToEntries = new Map<number, TraitNodeXTraitNodeEntry[]>()
+  for (const ne of nodeEntries) {
+    const existing = nodeToEntries.get(ne.TraitNodeID) || []
+    existing.push(ne)
+    nodeToEntries.set(ne.TraitNodeID, existing)
+  }
+
+  // Group nodes by tree
+  const treeToNodes = new Map<number, TraitNode[]>()
+  for (const node of nodes) {
+    const existing = treeToNodes.get(node.TraitTreeID) || []
+    existing.push(node)
+    treeToNodes.set(node.TraitTreeID, existing)
+  }
+
+  // Group edges by tree (using the from-node's tree)
+  const treeToEdges = new Map<number, TraitEdge[]>()
+  for (const edge of edges) {
+    const fromNode = nodeById.get(edge.LeftTraitNodeID)
+    if (fromNode) {
+      const existing = treeToEdges.get(fromNode.TraitTreeID) || []
+      existing.push(edge)
+      treeToEdges.set(fromNode.TraitTreeID, existing)
+    }
+  }
+
+  // Build spec restriction mapping
+  // 1. SpecSetID -> [SpecIDs] mapping
+  const specSetToSpecIds = new Map<number, number[]>()
+  for (const member of specSetMembers) {
+    const existing = specSetToSpecIds.get(member.SpecSet) || []
+    existing.push(member.ChrSpecializationID)
+    specSetToSpecIds.set(member.SpecSet, existing)
+  }
+
+  // 2. Build TraitCond lookup
+  const traitCondById = new Map(traitConds.map(c => [c.ID, c]))
+
+  // 3. Build NodeGroupID -> [AllowedSpecIDs] mapping from group conditions
+  const nodeGroupToAllowedSpecs = new Map<number, number[]>()
+  for (const groupCond of traitNodeGroupXTraitConds) {
+    const cond = traitCondById.get(groupCond.TraitCondID)
+    // CondType 1 = spec restriction
+    if (cond && cond.CondType === 1 && cond.SpecSetID > 0) {
+      const specIds = specSetToSpecIds.get(cond.SpecSetID) || []
+      if (specIds.length > 0) {
+        const existing = nodeGroupToAllowedSpecs.get(groupCond.TraitNodeGroupID) || []
+        nodeGroupToAllowedSpecs.set(groupCond.TraitNodeGroupID, [...existing, ...specIds])
+      }
+    }
+  }
+
+  // 4. Build NodeID -> [AllowedSpecIDs] mapping
+  const nodeToAllowedSpecs = new Map<number, number[]>()
+
+  // From direct node conditions
+  for (const nodeCond of traitNodeXTraitConds) {
+    const cond = traitCondById.get(nodeCond.TraitCondID)
+    if (cond && cond.CondType === 1 && cond.SpecSetID > 0) {
+      const specIds = specSetToSpecIds.get(cond.SpecSetID) || []
+      if (specIds.length > 0) {
+        const existing = nodeToAllowedSpecs.get(nodeCond.TraitNodeID) || []
+        nodeToAllowedSpecs.set(nodeCond.TraitNodeID, [...existing, ...specIds])
+      }
+    }
+  }
+
+  // From node group membership
+  for (const groupNode of traitNodeGroupXTraitNodes) {
+    const allowedSpecs = nodeGroupToAllowedSpecs.get(groupNode.TraitNodeGroupID)
+    if (allowedSpecs && allowedSpecs.length > 0) {
+      const existing = nodeToAllowedSpecs.get(groupNode.TraitNodeID) || []
+      nodeToAllowedSpecs.set(groupNode.TraitNodeID, [...existing, ...allowedSpecs])
+    }
+  }
+
+  // Map node groups to their nodes
+  const nodeGroupToNodeIds = new Map<number, number[]>()
+  for (const groupNode of traitNodeGroupXTraitNodes) {
+    const existing = nodeGroupToNodeIds.get(groupNode.TraitNodeGroupID) || []
+    existing.push(groupNode.TraitNodeID)
+    nodeGroupToNodeIds.set(groupNode.TraitNodeGroupID, existing)
+  }
+
+  // Build NodeID -> CurrencyID mapping from node costs, then node group costs
+  const costById = new Map(traitCosts.map(c => [c.ID, c]))
+  const nodeToCurrency = new Map<number, number>()
+  for (const nodeCost of traitNodeXTraitCosts) {
+    const cost = costById.get(nodeCost.TraitCostID)
+    if (cost && !nodeToCurrency.has(nodeCost.TraitNodeID)) {
+      nodeToCurrency.set(nodeCost.TraitNodeID, cost.TraitCurrencyID)
+    }
+  }
+  for (const groupCost of traitNodeGroupXTraitCosts) {
+    const cost = costById.get(groupCost.TraitCostID)
+    if (!cost) continue
+    for (const nodeId of nodeGroupToNodeIds.get(groupCost.TraitNodeGroupID) || []) {
+      if (!nodeToCurrency.has(nodeId)) nodeToCurrency.set(nodeId, cost.TraitCurrencyID)
+    }
+  }
+
+  // Build NodeID -> [NodeGroupIDs] mapping, for nodes that only get a currency through a group sibling
+  const nodeToGroupIds = new Map<number, number[]>()
+  for (const groupNode of traitNodeGroupXTraitNodes) {
+    const existing = nodeToGroupIds.get(groupNode.TraitNodeID) || []
+    existing.push(groupNode.TraitNodeGroupID)
+    nodeToGroupIds.set(groupNode.TraitNodeID, existing)
+  }
+
+  // Build TreeID -> [CurrencyIDs] mapping, in currency index order
+  // A class tree lists its class currency first and its spec currency second
+  const treeToCurrencyIds = new Map<number, number[]>()
+  for (const treeCurrency of [...treeCurrencies].sort((a, b) => a._Index - b._Index)) {
+    const existing = treeToCurrencyIds.get(treeCurrency.TraitTreeID) || []
+    existing.push(treeCurrency.TraitCurrencyID)
+    treeToCurrencyIds.set(treeCurrency.TraitTreeID, existing)
+  }
+
+  // Build CurrencyID -> points mapping: every source of a currency adds up to what a max level character has
+  const currencyToPoints = new Map<number, number>()
+  for (const source of currencySources) {
+    currencyToPoints.set(source.TraitCurrencyID, (currencyToPoints.get(source.TraitCurrencyID) || 0) + source.Amount)
+  }
+
+  /**
+   * Which part of the tree a node belongs to. Hero nodes have a subtree (the hero tree
+   * selector sits with them); class and spec nodes are told apart by the currency they
+   * cost. Free nodes take the currency of a node group sibling, and failing that, nodes
+   * restricted to some specs count as spec nodes.
+   */
+  const getSection = (node: TraitNode): TreeSection => {
+    if (node.TraitSubTreeID > 0 || node.Type === 3) return 'hero'
+
+    const currencyId = nodeToCurrency.get(node.ID) ?? (nodeToGroupIds.get(node.ID) || [])
+      .flatMap(groupId => nodeGroupToNodeIds.get(groupId) || [])
+      .map(siblingId => nodeToCurrency.get(siblingId))
+      .find(id => id !== undefined)
+    const currencyIndex = currencyId !== undefined
+      ? (treeToCurrencyIds.get(node.TraitTreeID) || []).indexOf(currencyId)
+      : -1
+
+    if (currencyIndex === 0) return 'class'
+    if (currencyIndex === 1) return 'spec'
+    return nodeToAllowedSpecs.has(node.ID) ? 'spec' : 'class'
+  }
+
+  // Build gate mappings
+  // CondType 0 = available, gated on points spent in a currency when SpentAmountRequired is set
+  const gateConds = traitConds.filter(c => c.CondType === 0 && c.SpentAmountRequired > 0)
+  const gateCondIds = new Set(gateConds.map(c => c.ID))
+  const gateToNodeIds = new Map<number, Set<number>>()
+  const addGatedNodes = (condId: number, nodeIds: number[]) => {
+    const existing = gateToNodeIds.get(condId) || new Set()
+    nodeIds.forEach(nodeId => existing.add(nodeId))
+    gateToNodeIds.set(condId, existing)
+  }
+  for (const nodeCond of traitNodeXTraitConds) {
+    if (gateCondIds.has(nodeCond.TraitCondID)) addGatedNodes(nodeCond.TraitCondID, [nodeCond.TraitNodeID])
+  }
+  for (const groupCond of traitNodeGroupXTraitConds) {
+    if (gateCondIds.has(groupCond.TraitCondID)) {
+      addGatedNodes(groupCond.TraitCondID, nodeGroupToNodeIds.get(groupCond.TraitNodeGroupID) || [])
+    }
+  }
+
+  // Build hero tree mappings
+  const subTreeById = new Map(traitSubTrees.map(st => [st.ID, st]))
+
+  // Map subtree ID to its node IDs (from TraitNode.TraitSubTreeID)
+  const subTreeToNodeIds = new Map<number, number[]>()
+  for (const node of nodes) {
+    if (node.TraitSubTreeID && node.TraitSubTreeID > 0) {
+      const existing = subTreeToNodeIds.get(node.TraitSubTreeID) || []
+      existing.push(node.ID)
+      subTreeToNodeIds.set(node.TraitSubTreeID, existing)
+    }
+  }
+
+  // Map tree ID to its subtrees (from TraitSubTree.TraitTreeID)
+  const treeToSubTreeIds = new Map<number, Set<number>>()
+  for (const subTree of traitSubTrees) {
+    if (subTree.TraitTreeID && subTree.TraitTreeID > 0) {
+      const existing = treeToSubTreeIds.get(subTree.TraitTreeID) || new Set()
+      existing.add(subTree.ID)
+      treeToSubTreeIds.set(subTree.TraitTreeID, existing)
+    }
+  }
+
+  // Map spec to tree via loadouts
+  // Sort by ID descending to prefer higher IDs (main class trees) over lower IDs (hero trees)
+  const sortedLoadouts = [...loadouts].sort((a, b) => b.ID - a.ID)
+  const specToTreeId = new Map<number, number>()
+  for (const loadout of sortedLoadouts) {
+    // Take the tree with highest loadout ID for each spec (main class tree)
+    if (!specToTreeId.has(loadout.ChrSpecializationID)) {
+      specToTreeId.set(loadout.ChrSpecializationID, loadout.TraitTreeID)
+    }
+  }
+
+  // Filter to player specs only
+  const playerSpecs = specs.filter(s =>
+    s.ClassID >= 1 && s.ClassID <= 13 &&
+    s.Name_lang && s.Name_lang.length > 0 &&
+    specToTreeId.has(s.ID) &&
+    (!filter.specIds?.length || filter.specIds.includes(s.ID)) &&
+    (!filter.classIds?.length || filter.classIds.includes(s.ClassID))
+  )
+
+  return playerSpecs.map(spec => {
+    const treeId = specToTreeId.get(spec.ID)!
+    const className = CLASS_NAMES[spec.ClassID] || 'Unknown'
+
+    // Sort nodes by ID to match WoW talent export string order
+    // The talent string encodes nodes in node ID order
+    const treeNodeList = [...(treeToNodes.get(treeId) || [])].sort((a, b) => a.ID - b.ID)
+    const treeEdgeList = treeToEdges.get(treeId) || []
+
+    const talentNodes: TalentNodeData[] = []
+
+    for (const node of treeNodeList) {
+      // Get spec restrictions for this node (if any)
+      const allowedSpecs = nodeToAllowedSpecs.get(node.ID)
+
+      // Sort entries by their index
+      const nodeEntryList = [...(nodeToEntries.get(node.ID) || [])].sort((a, b) => a._Index - b._Index)
+
+      const talentEntries: TalentEntryData[] = []
+
+      for (const ne of nodeEntryList) {
+        const entry = entryById.get(ne.TraitNodeEntryID)
+        if (!entry) continue
+
+        const definition = definitionById.get(entry.TraitDefinitionID)
+        const spellId = definition?.SpellID || 0
+        // Use override name if available, otherwise look up spell name
+        const name = definition?.OverrideName_lang || spellNameById.get(spellId) || ''
+        // Use override icon if available, otherwise look up spell icon
+        const iconId = definition?.OverrideIcon || spellIconById.get(spellId) || 0
+
+        talentEntries.push({
+          id: entry.ID,
+          definitionId: entry.TraitDefinitionID,
+          spellId,
+          name,
+          iconId,
+          maxRanks: entry.MaxRanks,
+          entryIndex: ne._Index,
+          // Hero tree selector entries pick a subtree
+          ...(entry.TraitSubTreeID > 0 ? { heroTreeId: entry.TraitSubTreeID } : {}),
+        })
+      }
+
+      const nodeData: TalentNodeData = {
+        id: node.ID,
+        posX: node.PosX,
+        posY: node.PosY,
+        type: node.Type,
+        maxRanks: talentEntries[0]?.maxRanks || 1,
+        section: getSection(node),
+        entries: talentEntries,
+      }
+
+      // Add spec restriction if this node is limited to specific specs
+      if (allowedSpecs && allowedSpecs.length > 0) {
+        nodeData.allowedSpecs = [...new Set(allowedSpecs)] // Deduplicate
+      }
+
+      const currencyId = nodeToCurrency.get(node.ID)
+      if (currencyId !== undefined) {
+        nodeData.currencyId = currencyId
+      }
+
+      talentNodes.push(nodeData)
+    }
+
+    const talentEdges: TalentEdgeData[] = treeEdgeList.map(e => ({
+      fromNodeId: e.LeftTraitNodeID,
+      toNodeId: e.RightTraitNodeID,
+      type: e.Type,
+    }))
+
+    // Build hero tree data for this spec
+    const subTreeIds = treeToSubTreeIds.get(treeId) || new Set()
+    const heroTrees: HeroTreeData[] = [...subTreeIds]
+      .map(subTreeId => {
+        const subTree = subTreeById.get(subTreeId)
+        if (!subTree || !subTree.Name_lang) return null
+        const nodeIds = subTreeToNodeIds.get(subTreeId) || []
+        return {
+          id: subTreeId,
+          name: subTree.Name_lang,
+          nodeIds,
+        }
+      })
+      .filter((ht): ht is HeroTreeData => ht !== null)
+
+    // Gates on this tree's nodes that apply to this spec, lowest threshold first
+    const treeNodeIds = new Set(treeNodeList.map(n => n.ID))
+    const gates: TalentGateData[] = gateConds
+      .filter(cond => cond.SpecSetID === 0 || (specSetToSpecIds.get(cond.SpecSetID) || []).includes(spec.ID))
+      .map(cond => ({
+        id: cond.ID,
+        currencyId: cond.TraitCurrencyID,
+        requiredPoints: cond.SpentAmountRequired,
+        nodeIds: [...(gateToNodeIds.get(cond.ID) || [])].filter(id => treeNodeIds.has(id)).sort((a, b) => a - b),
+      }))
+      .filter(gate => gate.nodeIds.length > 0)
+      .sort((a, b) => a.currencyId - b.currencyId || a.requiredPoints - b.requiredPoints)
+
+    // Points available in each section, from the tree's class and spec currencies and the hero nodes' currency
+    const [classCurrencyId, specCurrencyId] = treeToCurrencyIds.get(treeId) || []
+    const heroCurrencyId = talentNodes.find(n => n.section === 'hero' && n.currencyId !== undefined)?.currencyId
+    const sectionCurrencies: [TreeSection, number | undefined][] = [
+      ['class', classCurrencyId],
+      ['spec', specCurrencyId],
+      ['hero', heroCurrencyId],
+    ]
+    const pointLimits: Partial<Record<TreeSection, number>> = {}
+    for (const [section, currencyId] of sectionCurrencies) {
+      const points = currencyId !== undefined ? currencyToPoints.get(currencyId) : undefined
+      if (points) pointLimits[section] = points
+    }
+
+    return {
+      specId: spec.ID,
+      specName: spec.Name_lang,
+      className,
+      treeId,
+      gameBuild,
+      fingerprint: computeTreeFingerprint(talentNodes),
+      nodes: talentNodes,
+      edges: talentEdges,
+      heroTrees,
+      gates,
+      pointLimits,
+    }
+  })
+}
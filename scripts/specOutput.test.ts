@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, readFileSync, rmSync, existsSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { planSpecOutput, writePlannedFiles } from './specOutput'
+import type { SpecTalentData } from './generateSpecData'
+
+function createSpecData(specId: number, nodeCount: number, fingerprint = 'a'.repeat(32)): SpecTalentData {
+  return {
+    specId,
+    specName: `Spec ${specId}`,
+    className: 'Hunter',
+    treeId: 1,
+    gameBuild: '12.0.1.65337',
+    fingerprint,
+    nodes: Array.from({ length: nodeCount }, (_, i) => ({
+      id: i + 1,
+      posX: 0,
+      posY: 0,
+      type: 0,
+      maxRanks: 1,
+      section: 'class' as const,
+      entries: [],
+    })),
+    edges: [],
+    heroTrees: [],
+    gates: [],
+    pointLimits: {},
+  }
+}
+
+describe('planSpecOutput', () => {
+  let specsDir: string
+
+  beforeEach(() => {
+    specsDir = mkdtempSync(join(tmpdir(), 'specs-'))
+  })
+
+  afterEach(() => {
+    rmSync(specsDir, { recursive: true, force: true })
+  })
+
+  const readJson = (...path: string[]) => JSON.parse(readFileSync(join(specsDir, ...path), 'utf-8'))
+
+  it('should add spec files, the index and the snapshot list', () => {
+    const files = planSpecOutput(specsDir, '12.0.1.65337', 'live', [createSpecData(254, 2), createSpecData(253, 1)], false)
+
+    expect(files.map(file => [file.path.slice(specsDir.length + 1), file.status])).toEqual([
+      ['12.0.1.65337/254.json', 'added'],
+      ['12.0.1.65337/253.json', 'added'],
+      ['12.0.1.65337/index.json', 'added'],
+      ['snapshots.json', 'added'],
+    ])
+
+    writePlannedFiles(files)
+    expect(readJson('12.0.1.65337', 'index.json').map((s: { specId: number }) => s.specId)).toEqual([253, 254])
+    expect(readJson('snapshots.json')).toEqual([{ gameBuild: '12.0.1.65337', branch: 'live', complete: true }])
+  })
+
+  it('should report unchanged and changed files without writing', () => {
+    writePlannedFiles(planSpecOutput(specsDir, '12.0.1.65337', 'live', [createSpecData(254, 2), createSpecData(253, 1)], false))
+
+    const files = planSpecOutput(specsDir, '12.0.1.65337', 'live', [createSpecData(254, 3, 'b'.repeat(32)), createSpecData(253, 1)], false)
+
+    expect(files.map(file => file.status)).toEqual(['changed', 'unchanged', 'changed', 'unchanged'])
+    expect(files[0].summary).toBe('nodes 2 → 3, node layout changed')
+    expect(readJson('12.0.1.65337', '254.json').nodes).toHaveLength(2)
+  })
+
+  it('should keep other specs in the index on a partial run', () => {
+    writePlannedFiles(planSpecOutput(specsDir, '12.0.1.65337', 'live', [createSpecData(254, 2), createSpecData(253, 1)], false))
+    writePlannedFiles(planSpecOutput(specsDir, '12.0.1.65337', 'live', [createSpecData(254, 5)], true))
+
+    expect(readJson('12.0.1.65337', 'index.json')).toEqual([
+      { specId: 253, specName: 'Spec 253', className: 'Hunter', nodeCount: 1 },
+      { specId: 254, specName: 'Spec 254', className: 'Hunter', nodeCount: 5 },
+    ])
+    expect(readJson('snapshots.json')).toEqual([{ gameBuild: '12.0.1.65337', branch: 'live', complete: true }])
+  })
+
+  it('should mark a partial run of a new build incomplete', () => {
+    writePlannedFiles(planSpecOutput(specsDir, '12.0.1.65337', 'live', [createSpecData(254, 2), createSpecData(253, 1)], false))
+    writePlannedFiles(planSpecOutput(specsDir, '12.0.1.66102', 'live', [createSpecData(254, 2)], true))
+
+    expect(readJson('snapshots.json')).toEqual([
+      { gameBuild: '12.0.1.66102', branch: 'live', complete: false },
+      { gameBuild: '12.0.1.65337', branch: 'live', complete: true },
+    ])
+  })
+
+  it('should list snapshots newest first with their branch', () => {
+    writePlannedFiles(planSpecOutput(specsDir, '12.0.1.65337', 'live', [createSpecData(254, 1)], false))
+    writePlannedFiles(planSpecOutput(specsDir, '12.0.5.66000', 'ptr', [createSpecData(254, 1)], false))
+
+    expect(readJson('snapshots.json')).toEqual([
+      { gameBuild: '12.0.5.66000', branch: 'ptr', complete: true },
+      { gameBuild: '12.0.1.65337', branch: 'live', complete: true },
+    ])
+    expect(existsSync(join(specsDir, '12.0.5.66000', '254.json'))).toBe(true)
+  })
+})
@@ -0,0 +1,118 @@
+/**
+ * The files a generation run writes, compared with what is already on disk
+ *
+ * Planning and writing are separate so a dry run can print the plan instead.
+ */
+
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'fs'
+import { dirname, join } from 'path'
+import type { SpecTalentData } from './generateSpecData'
+
+export type FileStatus = 'added' | 'changed' | 'unchanged'
+
+export interface PlannedFile {
+  path: string
+  contents: string
+  status: FileStatus
+  summary?: string // What changed, for changed spec files
+}
+
+interface DataSnapshot {
+  gameBuild: string
+  branch: string
+  complete: boolean // Has every spec, not only those a --spec or --class run picked
+}
+
+interface SpecIndexEntry {
+  specId: number
+  specName: string
+  className: string
+  nodeCount: number
+}
+
+const readJson = <T>(path: string): T | undefined =>
+  existsSync(path) ? JSON.parse(readFileSync(path, 'utf-8')) as T : undefined
+
+// "nodes 98 → 99, node layout changed"
+function describeSpecChange(previous: SpecTalentData, next: SpecTalentData): string {
+  const counts: [string, number, number][] = [
+    ['nodes', previous.nodes.length, next.nodes.length],
+    ['edges', previous.edges.length, next.edges.length],
+    ['hero trees', previous.heroTrees.length, next.heroTrees.length],
+  ]
+  const parts = counts
+    .filter(([, from, to]) => from !== to)
+    .map(([label, from, to]) => `${label} ${from} → ${to}`)
+
+  if (previous.fingerprint !== next.fingerprint) parts.push('node layout changed')
+  return parts.length > 0 ? parts.join(', ') : 'talent details changed'
+}
+
+function planFile(path: string, contents: string, summarize?: (previous: string) => string): PlannedFile {
+  const previous = existsSync(path) ? readFileSync(path, 'utf-8') : undefined
+  if (previous === undefined) return { path, contents, status: 'added' }
+  if (previous === contents) return { path, contents, status: 'unchanged' }
+  return { path, contents, status: 'changed', ...(summarize ? { summary: summarize(previous) } : {}) }
+}
+
+/**
+ * Plan the spec files, index.json and snapshots.json for one game build.
+ *
+ * A partial run (only some specs) keeps the other specs' index entries; a full run
+ * replaces the index. The snapshot list is kept newest first, replacing any entry
+ * for the same build. A partial run's snapshot is only complete when a full run
+ * already wrote that build; the app defaults to the newest complete live snapshot.
+ */
+export function planSpecOutput(
+  specsDir: string,
+  gameBuild: string,
+  branch: string,
+  specDataList: SpecTalentData[],
+  partial: boolean
+): PlannedFile[] {
+  const outDir = join(specsDir, gameBuild)
+
+  const specFiles = specDataList.map(specData =>
+    planFile(
+      join(outDir, `${specData.specId}.json`),
+      JSON.stringify(specData, null, 2),
+      previous => describeSpecChange(JSON.parse(previous), specData)
+    )
+  )
+
+  const indexFile = join(outDir, 'index.json')
+  const generated = new Set(specDataList.map(s => s.specId))
+  const kept = partial ? (readJson<SpecIndexEntry[]>(indexFile) ?? []).filter(s => !generated.has(s.specId)) : []
+  const indexData: SpecIndexEntry[] = [
+    ...kept,
+    ...specDataList.map(s => ({
+      specId: s.specId,
+      specName: s.specName,
+      className: s.className,
+      nodeCount: s.nodes.length,
+    })),
+  ].sort((a, b) => a.specId - b.specId)
+
+  const snapshotsFile = join(specsDir, 'snapshots.json')
+  const buildNumber = (s: DataSnapshot) => Number(s.gameBuild.split('.').pop())
+  const previousSnapshots = readJson<DataSnapshot[]>(snapshotsFile) ?? []
+  const complete = !partial || previousSnapshots.some(s => s.gameBuild === gameBuild && s.complete)
+  const snapshots = [
+    ...previousSnapshots.filter(s => s.gameBuild !== gameBuild),
+    { gameBuild, branch, complete },
+  ].sort((a, b) => buildNumber(b) - buildNumber(a))
+
+  return [
+    ...specFiles,
+    planFile(indexFile, JSON.stringify(indexData, null, 2)),
+    planFile(snapshotsFile, JSON.stringify(snapshots, null, 2)),
+  ]
+}
+
+export function writePlannedFiles(files: PlannedFile[]) {
+  for (const file of files) {
+    if (file.status === 'unchanged') continue
+    mkdirSync(dirname(file.path), { recursive: true })
+    writeFileSync(file.path, file.contents)
+  }
+}
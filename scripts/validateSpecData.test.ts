@@ -0,0 +1,209 @@
+import { describe, it, expect } from 'vitest'
+import { existsSync, readFileSync, readdirSync } from 'fs'
+import { join } from 'path'
+import { validateSpecData, validateSpecIndex, type SpecDataIssueType, type SpecIndexEntry } from './validateSpecData'
+import { computeTreeFingerprint, type SpecTalentData } from './generateSpecData'
+
+const SPECS_DIR = join(__dirname, '..', 'src', 'data', 'specs')
+
+function createNode(id: number, maxRanks = 1, section: 'class' | 'spec' | 'hero' = 'class') {
+  return {
+    id,
+    posX: 0,
+    posY: 0,
+    type: 0,
+    maxRanks,
+    section,
+    currencyId: { class: 1, spec: 2, hero: 3 }[section],
+    entries: [{ id: id * 10, definitionId: id * 100, spellId: 0, name: `Talent ${id}`, iconId: 0, maxRanks, entryIndex: 0 }],
+  }
+}
+
+function createSpecData(overrides: Partial<SpecTalentData> = {}): SpecTalentData {
+  const nodes = overrides.nodes ?? [createNode(1), createNode(2), createNode(3, 1, 'hero')]
+  return {
+    specId: 254,
+    specName: 'Marksmanship',
+    className: 'Hunter',
+    treeId: 1,
+    gameBuild: '12.0.1.65337',
+    fingerprint: computeTreeFingerprint(nodes),
+    nodes,
+    edges: [{ fromNodeId: 1, toNodeId: 2, type: 2 }],
+    heroTrees: [{ id: 42, name: 'Sentinel', nodeIds: [3] }],
+    gates: [{ id: 7, currencyId: 1, requiredPoints: 8, nodeIds: [2] }],
+    pointLimits: { class: 34, spec: 34, hero: 13 },
+    ...overrides,
+  }
+}
+
+const issueTypes = (specData: SpecTalentData) => validateSpecData(specData).map(issue => issue.type)
+
+describe('validateSpecData', () => {
+  it('should accept sane data', () => {
+    expect(validateSpecData(createSpecData())).toEqual([])
+  })
+
+  it('should flag an empty tree', () => {
+    expect(issueTypes(createSpecData({ nodes: [], edges: [], heroTrees: [], gates: [] }))).toEqual(['empty-tree'])
+  })
+
+  it('should flag duplicate and out-of-order nodes', () => {
+    const nodes = [createNode(1), createNode(3, 1, 'hero'), createNode(2), createNode(2)]
+    const issues = validateSpecData(createSpecData({ nodes }))
+
+    expect(issues.map(issue => [issue.type, issue.nodeId])).toEqual([
+      ['node-order', 2],
+      ['duplicate-node', 2],
+    ])
+  })
+
+  it('should flag nodes without entries or ranks', () => {
+    const nodes = [createNode(1), { ...createNode(2), entries: [] }, createNode(3, 0, 'hero')]
+    expect(issueTypes(createSpecData({ nodes }))).toEqual(['empty-entries', 'invalid-ranks'])
+  })
+
+  it('should flag edges and hero trees referencing missing nodes', () => {
+    const issues = validateSpecData(createSpecData({
+      edges: [{ fromNodeId: 1, toNodeId: 99, type: 2 }],
+      heroTrees: [{ id: 42, name: 'Sentinel', nodeIds: [3, 98] }],
+      gates: [{ id: 7, currencyId: 1, requiredPoints: 8, nodeIds: [97] }],
+    }))
+
+    expect(issues.map(issue => [issue.type, issue.nodeId])).toEqual([
+      ['dangling-edge', 99],
+      ['missing-hero-node', 98],
+      ['missing-gate-node', 97],
+    ])
+    expect(issues[0].message).toBe('Spec 254: edge 1 → 99 references node 99, which is not in the tree')
+  })
+
+  it('should flag sections that disagree with the hero trees', () => {
+    const nodes = [createNode(1, 1, 'hero'), createNode(2), createNode(3, 1, 'spec')]
+    const issues = validateSpecData(createSpecData({ nodes }))
+
+    expect(issues.map(issue => [issue.type, issue.nodeId])).toEqual([
+      ['section-mismatch', 1],
+      ['section-mismatch', 3],
+    ])
+    expect(issues[1].message).toBe('Spec 254: node 3 is in the spec section but is a hero tree node')
+  })
+
+  it('should flag nodes without a section', () => {
+    const nodes = [createNode(1), { ...createNode(2), section: undefined }, createNode(3, 1, 'hero')] as SpecTalentData['nodes']
+    const issues = validateSpecData(createSpecData({ nodes }))
+
+    expect(issues.map(issue => [issue.type, issue.nodeId])).toEqual([['missing-section', 2]])
+    expect(issues[0].message).toBe('Spec 254: node 2 has no section')
+  })
+
+  it('should flag hero tree selector entries without a hero tree', () => {
+    const selector = { ...createNode(4, 1, 'hero'), type: 3 }
+    const nodes = [createNode(1), createNode(2), createNode(3, 1, 'hero'), selector]
+    expect(issueTypes(createSpecData({ nodes }))).toEqual(['missing-hero-tree-id'])
+
+    const withHeroTree = { ...selector, entries: selector.entries.map(entry => ({ ...entry, heroTreeId: 42 })) }
+    expect(issueTypes(createSpecData({ nodes: [...nodes.slice(0, 3), withHeroTree] }))).toEqual([])
+  })
+
+  it('should flag missing gates, point limits and node currencies', () => {
+    const nodes = [1, 2, 3].map(id => ({ ...createNode(id, 1, id === 3 ? 'hero' : 'class'), currencyId: undefined }))
+    const issues = validateSpecData(createSpecData({ nodes, gates: undefined, pointLimits: undefined }))
+
+    expect(issues.map(issue => issue.type)).toEqual(['missing-gate-data'])
+    expect(issues[0].message).toBe('Spec 254: has no gates, point limits, node currencies')
+  })
+
+  it('should accept a tree without gates', () => {
+    expect(issueTypes(createSpecData({ gates: [] }))).toEqual([])
+  })
+
+  it('should flag a stale fingerprint', () => {
+    expect(issueTypes(createSpecData({ fingerprint: '0'.repeat(32) }))).toEqual(['fingerprint-mismatch'])
+  })
+})
+
+describe('validateSpecIndex', () => {
+  const entryFor = (specData: SpecTalentData): SpecIndexEntry => ({
+    specId: specData.specId,
+    specName: specData.specName,
+    className: specData.className,
+    nodeCount: specData.nodes.length,
+  })
+  const marksmanship = createSpecData()
+  const beastMastery = createSpecData({ specId: 253, specName: 'Beast Mastery' })
+
+  it('should accept a matching index', () => {
+    expect(validateSpecIndex([entryFor(beastMastery), entryFor(marksmanship)], [marksmanship, beastMastery])).toEqual([])
+  })
+
+  it('should flag out-of-order and duplicate entries', () => {
+    const issues = validateSpecIndex([entryFor(marksmanship), entryFor(beastMastery), entryFor(beastMastery)], [marksmanship, beastMastery])
+    expect(issues.map(issue => [issue.type, issue.specId])).toEqual([['index-order', 253], ['index-order', 253]])
+  })
+
+  it('should flag missing, unindexed and mismatched specs', () => {
+    const issues = validateSpecIndex(
+      [{ ...entryFor(beastMastery), nodeCount: 99 }, { ...entryFor(marksmanship), specId: 255 }],
+      [marksmanship, beastMastery]
+    )
+
+    expect(issues.map(issue => [issue.type, issue.specId])).toEqual([
+      ['index-mismatch', 253],
+      ['missing-spec', 255],
+      ['unindexed-spec', 254],
+    ])
+  })
+})
+
+// Every snapshot checked into src/data/specs
+const snapshotDirs = readdirSync(SPECS_DIR, { withFileTypes: true })
+  .filter(entry => entry.isDirectory())
+  .map(entry => entry.name)
+
+const readJson = <T>(...path: string[]): T => JSON.parse(readFileSync(join(SPECS_DIR, ...path), 'utf-8'))
+
+describe('snapshots.json', () => {
+  it('should list a complete live snapshot for the app to default to', () => {
+    const snapshots = readJson<{ branch: string; complete: boolean }[]>('snapshots.json')
+    expect(snapshots.some(s => s.complete && s.branch === 'live')).toBe(true)
+  })
+})
+
+// Snapshots generated before sections, selector hero trees and gate data were baked in, with
+// the issues that flags. Regenerate them with `npm run fetch-data` and drop them from here
+const NOT_REGENERATED: Record<string, SpecDataIssueType[]> = {
+  '12.0.1.65337': ['missing-section', 'missing-hero-tree-id', 'missing-gate-data'],
+}
+
+describe.each(snapshotDirs)('spec data snapshot %s', snapshot => {
+  const specFiles = readdirSync(join(SPECS_DIR, snapshot)).filter(file => /^\d+\.json$/.test(file))
+  const specDataList = specFiles.map(file => readJson<SpecTalentData>(snapshot, file))
+  const staleIssueTypes = NOT_REGENERATED[snapshot] ?? []
+
+  it.each(specFiles.map((file, i) => [file, specDataList[i]] as const))('%s should pass the integrity checks', (_, specData) => {
+    const issues = validateSpecData(specData).filter(issue => !staleIssueTypes.includes(issue.type))
+    expect(issues.map(issue => issue.message)).toEqual([])
+  })
+
+  // Fails once the snapshot is regenerated, so the exemption above can't outlive the data
+  it.runIf(staleIssueTypes.length > 0)('should still be waiting to be regenerated', () => {
+    const issueTypes = new Set(specDataList.flatMap(specData => validateSpecData(specData).map(issue => issue.type)))
+    expect(staleIssueTypes.filter(type => !issueTypes.has(type))).toEqual([])
+  })
+
+  it('should have an index.json matching its spec files', () => {
+    expect(existsSync(join(SPECS_DIR, snapshot, 'index.json'))).toBe(true)
+    const index = readJson<SpecIndexEntry[]>(snapshot, 'index.json')
+    expect(validateSpecIndex(index, specDataList).map(issue => issue.message)).toEqual([])
+  })
+
+  it('should be listed in snapshots.json', () => {
+    const snapshots = readJson<{ gameBuild: string }[]>('snapshots.json')
+    expect(snapshots.map(s => s.gameBuild)).toContain(snapshot)
+  })
+
+  it('should record its game build in every spec file', () => {
+    expect(specDataList.filter(specData => specData.gameBuild !== snapshot).map(s => s.specId)).toEqual([])
+  })
+})
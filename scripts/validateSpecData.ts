@@ -0,0 +1,190 @@
+/**
+ * Integrity checks for generated spec data
+ *
+ * The app trusts these files: the talent string parser reads nodes by index in node ID
+ * order, and the tree view looks up edge and hero tree node IDs without checking them.
+ */
+
+import { computeTreeFingerprint, type SpecTalentData } from './generateSpecData'
+
+export type SpecDataIssueType =
+  | 'empty-tree'
+  | 'duplicate-node'
+  | 'node-order'
+  | 'empty-entries'
+  | 'invalid-ranks'
+  | 'dangling-edge'
+  | 'missing-hero-node'
+  | 'missing-gate-node'
+  | 'missing-gate-data'
+  | 'missing-section'
+  | 'missing-hero-tree-id'
+  | 'section-mismatch'
+  | 'fingerprint-mismatch'
+  | 'index-order'
+  | 'index-mismatch'
+  | 'missing-spec'
+  | 'unindexed-spec'
+
+export interface SpecDataIssue {
+  type: SpecDataIssueType
+  message: string
+  specId?: number
+  nodeId?: number
+}
+
+export interface SpecIndexEntry {
+  specId: number
+  specName: string
+  className: string
+  nodeCount: number
+}
+
+/**
+ * Check one spec's data. Returns every issue found; an empty array means the data is sane.
+ */
+export function validateSpecData(specData: SpecTalentData): SpecDataIssue[] {
+  const issues: SpecDataIssue[] = []
+  const { specId } = specData
+  const report = (type: SpecDataIssueType, message: string, nodeId?: number) =>
+    issues.push({ type, message: `Spec ${specId}: ${message}`, specId, ...(nodeId !== undefined ? { nodeId } : {}) })
+
+  if (specData.nodes.length === 0) {
+    report('empty-tree', 'has no nodes')
+  }
+
+  const nodeIds = new Set<number>()
+  specData.nodes.forEach((node, index) => {
+    if (nodeIds.has(node.id)) {
+      report('duplicate-node', `node ${node.id} appears more than once`, node.id)
+    }
+    nodeIds.add(node.id)
+
+    // Talent strings encode nodes in node ID order
+    const previous = specData.nodes[index - 1]
+    if (previous && previous.id > node.id) {
+      report('node-order', `node ${node.id} comes after node ${previous.id}`, node.id)
+    }
+
+    if (node.entries.length === 0) {
+      report('empty-entries', `node ${node.id} has no entries`, node.id)
+    }
+    // Entries may have no ranks (Blizzard has some placeholder entries), but the node can't
+    if (node.maxRanks < 1) {
+      report('invalid-ranks', `node ${node.id} has no ranks`, node.id)
+    }
+  })
+
+  for (const edge of specData.edges) {
+    for (const nodeId of [edge.fromNodeId, edge.toNodeId]) {
+      if (!nodeIds.has(nodeId)) {
+        report('dangling-edge', `edge ${edge.fromNodeId} → ${edge.toNodeId} references node ${nodeId}, which is not in the tree`, nodeId)
+      }
+    }
+  }
+
+  for (const heroTree of specData.heroTrees) {
+    for (const nodeId of heroTree.nodeIds) {
+      if (!nodeIds.has(nodeId)) {
+        report('missing-hero-node', `hero tree ${heroTree.name} lists node ${nodeId}, which is not in the tree`, nodeId)
+      }
+    }
+  }
+
+  // The app only trusts the baked-in sections when every node has one, and otherwise falls
+  // back to guessing from the layout. Generated data always has them
+  for (const node of specData.nodes) {
+    if (node.section === undefined) {
+      report('missing-section', `node ${node.id} has no section`, node.id)
+    }
+    if (node.type === 3) {
+      for (const entry of node.entries) {
+        if (entry.heroTreeId === undefined) {
+          report('missing-hero-tree-id', `hero tree selector ${node.id} has an entry without a hero tree`, node.id)
+        }
+      }
+    }
+  }
+
+  // Hero tree nodes and the hero tree selector are the hero section, and nothing else is
+  const heroNodeIds = new Set(specData.heroTrees.flatMap(heroTree => heroTree.nodeIds))
+  for (const node of specData.nodes) {
+    const isHero = heroNodeIds.has(node.id) || node.type === 3
+    if (node.section !== undefined && (node.section === 'hero') !== isHero) {
+      report('section-mismatch', `node ${node.id} is in the ${node.section} section but ${isHero ? 'is' : 'is not'} a hero tree node`, node.id)
+    }
+  }
+
+  // Without these the app can't tell which nodes are locked, what each section may spend or
+  // which currency a node costs, and silently leaves every node open
+  const missingGateData = [
+    ...(specData.gates === undefined ? ['gates'] : []),
+    ...(specData.pointLimits === undefined ? ['point limits'] : []),
+    ...(specData.nodes.length > 0 && specData.nodes.every(node => node.currencyId === undefined) ? ['node currencies'] : []),
+  ]
+  if (missingGateData.length > 0) {
+    report('missing-gate-data', `has no ${missingGateData.join(', ')}`)
+  }
+
+  for (const gate of specData.gates ?? []) {
+    for (const nodeId of gate.nodeIds) {
+      if (!nodeIds.has(nodeId)) {
+        report('missing-gate-node', `gate ${gate.id} locks node ${nodeId}, which is not in the tree`, nodeId)
+      }
+    }
+  }
+
+  if (specData.fingerprint !== computeTreeFingerprint(specData.nodes)) {
+    report('fingerprint-mismatch', 'fingerprint does not match the node layout')
+  }
+
+  return issues
+}
+
+/**
+ * Check a snapshot's index.json against its spec files: one entry per spec, in spec ID
+ * order, with the spec's name, class and node count.
+ */
+export function validateSpecIndex(index: SpecIndexEntry[], specDataList: SpecTalentData[]): SpecDataIssue[] {
+  const issues: SpecDataIssue[] = []
+  const specById = new Map(specDataList.map(s => [s.specId, s]))
+  const indexedIds = new Set<number>()
+
+  index.forEach((entry, i) => {
+    const { specId } = entry
+    if (i > 0 && index[i - 1].specId >= specId) {
+      issues.push({ type: 'index-order', message: `Index: spec ${specId} is out of order or listed twice`, specId })
+    }
+    indexedIds.add(specId)
+
+    const specData = specById.get(specId)
+    if (!specData) {
+      issues.push({ type: 'missing-spec', message: `Index: spec ${specId} has no spec file`, specId })
+      return
+    }
+
+    const expected: Omit<SpecIndexEntry, 'specId'> = {
+      specName: specData.specName,
+      className: specData.className,
+      nodeCount: specData.nodes.length,
+    }
+    for (const [field, value] of Object.entries(expected)) {
+      const actual = entry[field as keyof typeof expected]
+      if (actual !== value) {
+        issues.push({
+          type: 'index-mismatch',
+          message: `Index: spec ${specId} has ${field} ${JSON.stringify(actual)}, but its spec file has ${JSON.stringify(value)}`,
+          specId,
+        })
+      }
+    }
+  })
+
+  for (const specData of specDataList) {
+    if (!indexedIds.has(specData.specId)) {
+      issues.push({ type: 'unindexed-spec', message: `Index: spec ${specData.specId} is missing`, specId: specData.specId })
+    }
+  }
+
+  return issues
+}
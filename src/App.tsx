@@ -1,35 +1,74 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { CompareInput } from './components/CompareInput'
 import { CompareView } from './components/CompareView'
+import { BuildMatrixView } from './components/BuildMatrixView'
+import { CrossSpecView } from './components/CrossSpecView'
+import { BuildClusterView } from './components/BuildClusterView'
+import { DEFAULT_SNAPSHOT, useSpecIndex } from './hooks/useSpecData'
 import type { ParsedTalentData } from './lib/talentParser'
+import { getBuildLabel, getBuildLetter, MAX_BUILDS } from './lib/buildLabels'
 import './App.css'
 
+type AppMode = 'compare' | 'clusters'
+
 interface InitialBuilds {
-  buildA: string
-  buildB: string
+  builds: string[] // Build A, Build B, then any further builds
+  snapshotA: string
+  snapshotB: string
 }
 
 function getInitialBuilds(): InitialBuilds {
   const params = new URLSearchParams(window.location.search)
+  const builds: string[] = []
+  for (let i = 0; i < MAX_BUILDS; i++) {
+    builds.push(params.get(`build${getBuildLetter(i)}`) || '')
+  }
+  // Keep inputs up to the last build in the URL
+  while (builds.length > 2 && !builds[builds.length - 1]) {
+    builds.pop()
+  }
+
   return {
-    buildA: params.get('buildA') || '',
-    buildB: params.get('buildB') || '',
+    builds,
+    snapshotA: params.get('patchA') || DEFAULT_SNAPSHOT,
+    snapshotB: params.get('patchB') || DEFAULT_SNAPSHOT,
   }
 }
 
-function updateUrl(buildA: string | null, buildB: string | null) {
+function getInitialMode(): AppMode {
+  return new URLSearchParams(window.location.search).get('mode') === 'clusters' ? 'clusters' : 'compare'
+}
+
+function updateUrl(mode: AppMode, buildStrings: (string | null)[], snapshotA: string, snapshotB: string) {
   const url = new URL(window.location.href)
 
-  if (buildA) {
-    url.searchParams.set('buildA', buildA)
+  if (mode === 'clusters') {
+    url.searchParams.set('mode', mode)
+  } else {
+    url.searchParams.delete('mode')
+  }
+
+  for (let i = 0; i < MAX_BUILDS; i++) {
+    const param = `build${getBuildLetter(i)}`
+    const buildString = buildStrings[i]
+    if (buildString) {
+      url.searchParams.set(param, buildString)
+    } else {
+      url.searchParams.delete(param)
+    }
+  }
+
+  // Only record patches that differ from the default snapshot
+  if (snapshotA !== DEFAULT_SNAPSHOT) {
+    url.searchParams.set('patchA', snapshotA)
   } else {
-    url.searchParams.delete('buildA')
+    url.searchParams.delete('patchA')
   }
 
-  if (buildB) {
-    url.searchParams.set('buildB', buildB)
+  if (snapshotB !== DEFAULT_SNAPSHOT) {
+    url.searchParams.set('patchB', snapshotB)
   } else {
-    url.searchParams.delete('buildB')
+    url.searchParams.delete('patchB')
   }
 
   window.history.replaceState({}, '', url.toString())
@@ -37,74 +76,153 @@ function updateUrl(buildA: string | null, buildB: string | null) {
 
 function App() {
   const [initialBuilds] = useState(getInitialBuilds)
-  const [buildA, setBuildA] = useState<ParsedTalentData | null>(null)
-  const [buildB, setBuildB] = useState<ParsedTalentData | null>(null)
-  const [buildAString, setBuildAString] = useState<string | null>(null)
-  const [buildBString, setBuildBString] = useState<string | null>(null)
+  const [mode, setMode] = useState<AppMode>(getInitialMode)
+  // One entry per build input; index 0 is Build A and index 1 is Build B
+  const [builds, setBuilds] = useState<(ParsedTalentData | null)[]>(() => initialBuilds.builds.map(() => null))
+  const [buildStrings, setBuildStrings] = useState<(string | null)[]>(() => initialBuilds.builds.map(() => null))
+  const [snapshotA, setSnapshotA] = useState(initialBuilds.snapshotA)
+  const [snapshotB, setSnapshotB] = useState(initialBuilds.snapshotB)
   const [treeWidth, setTreeWidth] = useState<number | undefined>(undefined)
+  const specIndex = useSpecIndex(snapshotB)
+
+  const [buildA, buildB] = builds
+  const [buildAString, buildBString] = buildStrings
+  // More than two inputs switches from the A/B comparison to the build matrix
+  const isMultiCompare = builds.length > 2
+  const loadedBuilds = useMemo(() => builds
+    .map((build, index) => ({ label: getBuildLabel(index), build }))
+    .filter((entry): entry is { label: string; build: ParsedTalentData } => entry.build !== null), [builds])
+
+  // Two specs of the same class can still be compared on their shared class tree
+  const getClassName = (specId: number) => specIndex.find(spec => spec.specId === specId)?.className
+  const isCrossSpec = !isMultiCompare && !!buildA && !!buildB && buildA.specId !== buildB.specId &&
+    getClassName(buildA.specId) !== undefined && getClassName(buildA.specId) === getClassName(buildB.specId)
+
   // Compute spec mismatch synchronously to prevent race conditions
-  const specMismatchError = buildA && buildB && buildA.specId !== buildB.specId
-    ? `Cannot compare different specs: ${buildA.specName || `Spec ${buildA.specId}`} vs ${buildB.specName || `Spec ${buildB.specId}`}`
+  const mismatchedBuild = loadedBuilds.find(entry => entry.build.specId !== loadedBuilds[0].build.specId)
+  const specMismatchError = mismatchedBuild && !isCrossSpec
+    ? `Cannot compare different specs: ${loadedBuilds[0].build.specName || `Spec ${loadedBuilds[0].build.specId}`} vs ${mismatchedBuild.build.specName || `Spec ${mismatchedBuild.build.specId}`}`
     : null
 
   // Check if builds are identical
-  const buildsIdentical = buildAString && buildBString && buildAString === buildBString
+  const buildsIdentical = !isMultiCompare && buildAString && buildBString && buildAString === buildBString && snapshotA === snapshotB
 
   // Update URL when builds change
   useEffect(() => {
-    updateUrl(buildAString, buildBString)
-  }, [buildAString, buildBString])
+    updateUrl(mode, buildStrings, snapshotA, snapshotB)
+  }, [mode, buildStrings, snapshotA, snapshotB])
+
+  const handleBuildChange = (index: number, data: ParsedTalentData | null, rawString: string | null) => {
+    setBuilds(current => current.map((build, i) => i === index ? data : build))
+    setBuildStrings(current => current.map((buildString, i) => i === index ? rawString : buildString))
+  }
 
-  const handleBuildAChange = (data: ParsedTalentData | null, rawString: string | null) => {
-    setBuildA(data)
-    setBuildAString(rawString)
+  const handleBuildRemove = (index: number) => {
+    setBuilds(current => current.filter((_, i) => i !== index))
+    setBuildStrings(current => current.filter((_, i) => i !== index))
   }
 
-  const handleBuildBChange = (data: ParsedTalentData | null, rawString: string | null) => {
-    setBuildB(data)
-    setBuildBString(rawString)
+  const handleBuildAdd = () => {
+    setBuilds(current => [...current, null])
+    setBuildStrings(current => [...current, null])
   }
 
-  const canCompare = buildA && buildB && !specMismatchError
+  const canCompare = !isMultiCompare && !isCrossSpec && buildA && buildB && !specMismatchError
+  const canCompareAll = isMultiCompare && loadedBuilds.length >= 2 && !specMismatchError
 
   return (
     <>
       <header>
         <h1>WoW Talent Comparer</h1>
-        <h2>Compare two talent builds to see the differences</h2>
+        <h2>Compare talent builds to see the differences</h2>
+        <nav className="app-modes">
+          <button
+            className={mode === 'compare' ? 'active' : ''}
+            onClick={() => setMode('compare')}
+          >
+            Compare builds
+          </button>
+          <button
+            className={mode === 'clusters' ? 'active' : ''}
+            onClick={() => setMode('clusters')}
+          >
+            Find archetypes
+          </button>
+        </nav>
       </header>
 
       <main
         className="main-content"
         style={treeWidth ? { maxWidth: treeWidth } : undefined}
       >
-        <CompareInput
-          onBuildAChange={handleBuildAChange}
-          onBuildBChange={handleBuildBChange}
-          initialBuildA={initialBuilds.buildA}
-          initialBuildB={initialBuilds.buildB}
-        />
-
-        {specMismatchError && (
-          <div className="error-message">
-            {specMismatchError}
-          </div>
-        )}
-
-        {buildsIdentical && (
-          <div className="info-message">
-            These builds are identical
-          </div>
-        )}
-
-        {canCompare && (
-          <CompareView buildA={buildA} buildB={buildB} onTreeWidthChange={setTreeWidth} />
+        {mode === 'clusters' && (
+          <BuildClusterView snapshot={snapshotB} onTreeWidthChange={setTreeWidth} />
         )}
 
-        {!canCompare && (buildA || buildB) && !specMismatchError && (
-          <div className="info-message">
-            Load both builds to see the comparison
-          </div>
+        {mode === 'compare' && (
+          <>
+            <CompareInput
+              onBuildChange={handleBuildChange}
+              onBuildAdd={handleBuildAdd}
+              onBuildRemove={handleBuildRemove}
+              initialBuilds={initialBuilds.builds}
+              snapshotA={snapshotA}
+              snapshotB={snapshotB}
+            />
+
+            {specMismatchError && (
+              <div className="error-message">
+                {specMismatchError}
+              </div>
+            )}
+
+            {buildsIdentical && (
+              <div className="info-message">
+                These builds are identical
+              </div>
+            )}
+
+            {canCompare && (
+              <CompareView
+                buildA={buildA}
+                buildB={buildB}
+                snapshotA={snapshotA}
+                snapshotB={snapshotB}
+                onSnapshotAChange={setSnapshotA}
+                onSnapshotBChange={setSnapshotB}
+                onTreeWidthChange={setTreeWidth}
+              />
+            )}
+
+            {isCrossSpec && buildA && buildB && (
+              <CrossSpecView
+                buildA={buildA}
+                buildB={buildB}
+                snapshotA={snapshotA}
+                snapshotB={snapshotB}
+                onSnapshotAChange={setSnapshotA}
+                onSnapshotBChange={setSnapshotB}
+                onTreeWidthChange={setTreeWidth}
+              />
+            )}
+
+            {canCompareAll && (
+              <BuildMatrixView
+                builds={loadedBuilds}
+                snapshotA={snapshotA}
+                snapshotB={snapshotB}
+                onSnapshotAChange={setSnapshotA}
+                onSnapshotBChange={setSnapshotB}
+                onTreeWidthChange={setTreeWidth}
+              />
+            )}
+
+            {!canCompare && !canCompareAll && !isCrossSpec && loadedBuilds.length > 0 && !specMismatchError && (
+              <div className="info-message">
+                {isMultiCompare ? 'Load at least two builds to see the comparison' : 'Load both builds to see the comparison'}
+              </div>
+            )}
+          </>
         )}
       </main>
     </>
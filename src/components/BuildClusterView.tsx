@@ -0,0 +1,220 @@
+import { useState, useMemo } from 'react'
+import { parseTalentString, type ParsedTalentData } from '../lib/talentParser'
+import { parseWowheadUrl } from '../lib/wowheadUrl'
+import { useSpecData } from '../hooks/useSpecData'
+import { clusterBuilds, type BuildCluster } from '../lib/buildSimilarity'
+import { checkDataCompatibility, checkTalentStringEnd } from '../lib/dataCompatibility'
+import { createBuildMatrix } from '../lib/buildMatrix'
+import { TalentTreeView } from './TalentTreeView'
+import './BuildClusterView.css'
+
+interface BuildClusterViewProps {
+  snapshot: string
+  onTreeWidthChange?: (width: number) => void
+}
+
+interface ParsedLine {
+  line: number // 1-based line in the pasted list
+  talentString: string
+  build: ParsedTalentData
+}
+
+const DEFAULT_THRESHOLD = 6
+
+// Read one talent string or Wowhead link per line, collecting the lines that fail
+function parseBuildList(text: string): { parsed: ParsedLine[]; failed: number[] } {
+  const parsed: ParsedLine[] = []
+  const failed: number[] = []
+
+  text.split('\n').forEach((rawLine, i) => {
+    const trimmed = rawLine.trim()
+    if (!trimmed) return
+    try {
+      const talentString = parseWowheadUrl(trimmed)?.talentString ?? trimmed
+      parsed.push({ line: i + 1, talentString, build: parseTalentString(talentString) })
+    } catch {
+      failed.push(i + 1)
+    }
+  })
+
+  return { parsed, failed }
+}
+
+export function BuildClusterView({ snapshot, onTreeWidthChange }: BuildClusterViewProps) {
+  const [text, setText] = useState('')
+  const [threshold, setThreshold] = useState(DEFAULT_THRESHOLD)
+  const [selectedCluster, setSelectedCluster] = useState(0)
+
+  const { parsed, failed } = useMemo(() => parseBuildList(text), [text])
+
+  // Cluster the most common spec in the list; builds of other specs are skipped
+  const specId = useMemo(() => {
+    const counts = new Map<number, number>()
+    for (const { build } of parsed) {
+      counts.set(build.specId, (counts.get(build.specId) ?? 0) + 1)
+    }
+    let best: number | null = null
+    for (const [id, count] of counts) {
+      if (best === null || count > counts.get(best)!) best = id
+    }
+    return best
+  }, [parsed])
+
+  const { data: specData, loading, error } = useSpecData(specId, snapshot)
+
+  // Check the spec's builds against its tree once the data has loaded: strings with data
+  // past the last node are left out, and strings from other patches are kept with a warning
+  const { entries, rejected, otherPatchLines } = useMemo(() => {
+    const sameSpec = parsed.filter(entry => entry.build.specId === specId)
+    if (!specData) return { entries: sameSpec, rejected: [], otherPatchLines: [] }
+
+    const kept: ParsedLine[] = []
+    const failedChecks: { line: number; message: string }[] = []
+    const mismatchedLines: number[] = []
+    for (const entry of sameSpec) {
+      const stringError = checkTalentStringEnd(entry.talentString, entry.build, specData)
+      if (stringError) {
+        failedChecks.push({ line: entry.line, message: stringError.message })
+        continue
+      }
+      if (checkDataCompatibility(entry.build, specData).length > 0) {
+        mismatchedLines.push(entry.line)
+      }
+      kept.push(entry)
+    }
+    return { entries: kept, rejected: failedChecks, otherPatchLines: mismatchedLines }
+  }, [parsed, specId, specData])
+  const skippedLines = parsed.filter(entry => entry.build.specId !== specId).map(entry => entry.line)
+
+  const clusters = useMemo(() => {
+    if (!specData || entries.length === 0) return []
+    return clusterBuilds(entries.map(entry => entry.build), specData, threshold)
+  }, [entries, specData, threshold])
+
+  const activeCluster: BuildCluster | undefined = clusters[selectedCluster] ?? clusters[0]
+
+  // Colour the tree by how many of the selected archetype's builds take each node
+  const coverage = useMemo(() => {
+    if (!specData || !activeCluster) return null
+    return createBuildMatrix(activeCluster.members.map(i => entries[i].build), specData)
+  }, [activeCluster, entries, specData])
+
+  const formatShare = (share: number) => `${Math.round(share * 100)}%`
+
+  return (
+    <div className="build-cluster-view">
+      <div className="build-cluster-input">
+        <label htmlFor="build-cluster-list">Talent strings or Wowhead links, one per line</label>
+        <textarea
+          id="build-cluster-list"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Paste builds of one spec to group them into archetypes..."
+          rows={8}
+          spellCheck={false}
+        />
+        <label className="build-cluster-threshold">
+          Merge builds closer than
+          <input
+            type="range"
+            min={1}
+            max={20}
+            value={threshold}
+            onChange={(e) => setThreshold(Number(e.target.value))}
+          />
+          <span>{threshold}</span>
+        </label>
+      </div>
+
+      {failed.length > 0 && (
+        <div className="error-message">
+          Could not read line{failed.length > 1 ? 's' : ''} {failed.join(', ')}
+        </div>
+      )}
+
+      {rejected.map(({ line, message }) => (
+        <div key={line} className="error-message">Line {line}: {message}</div>
+      ))}
+
+      {otherPatchLines.length > 0 && specData && (
+        <div className="info-message">
+          Line{otherPatchLines.length > 1 ? 's' : ''} {otherPatchLines.join(', ')} {otherPatchLines.length > 1 ? 'were' : 'was'} probably
+          exported on a different patch than the talent data, so talents may be shown incorrectly
+        </div>
+      )}
+
+      {skippedLines.length > 0 && specData && (
+        <div className="info-message">
+          Skipped line{skippedLines.length > 1 ? 's' : ''} {skippedLines.join(', ')}: not {specData.specName} builds
+        </div>
+      )}
+
+      {loading && (
+        <div className="compare-view-loading">Loading talent tree data...</div>
+      )}
+
+      {error && (
+        <div className="compare-view-error">{error}</div>
+      )}
+
+      {specData && activeCluster && coverage && (
+        <>
+          <div className="compare-view-header">
+            <h3>
+              {specData.specName}
+              <span className="compare-view-class"> {entries.length} builds in {clusters.length} archetype{clusters.length > 1 ? 's' : ''}</span>
+            </h3>
+          </div>
+
+          <div className="build-cluster-list">
+            {clusters.map((cluster, index) => {
+              const representative = entries[cluster.representative]
+              return (
+                <section
+                  key={cluster.members.join(',')}
+                  className={`build-cluster${cluster === activeCluster ? ' selected' : ''}`}
+                  onClick={() => setSelectedCluster(index)}
+                >
+                  <h4>
+                    Archetype {index + 1}
+                    <span className="build-cluster-size"> {cluster.members.length} build{cluster.members.length > 1 ? 's' : ''}</span>
+                  </h4>
+                  <div className="build-cluster-representative">
+                    <span>Representative (line {representative.line})</span>
+                    <input type="text" readOnly value={representative.talentString} onFocus={(e) => e.target.select()} />
+                  </div>
+                  {cluster.distinguishingTalents.length > 0 && (
+                    <ul className="build-cluster-talents">
+                      {cluster.distinguishingTalents.map(talent => (
+                        <li
+                          key={`${talent.nodeIndex}:${talent.choiceEntryIndex ?? ''}`}
+                          className={talent.clusterShare > talent.otherShare ? 'more' : 'fewer'}
+                        >
+                          {talent.name}
+                          <span className="build-cluster-share">
+                            {' '}{formatShare(talent.clusterShare)} vs {formatShare(talent.otherShare)} of others
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <div className="build-cluster-members">
+                    Lines {cluster.members.map(i => entries[i].line).join(', ')}
+                  </div>
+                </section>
+              )
+            })}
+          </div>
+
+          <TalentTreeView
+            specData={specData}
+            selectedNodes={entries[activeCluster.representative].build.nodes}
+            coverage={coverage.coverage}
+            coverageTotal={coverage.buildCount}
+            onDimensionsChange={onTreeWidthChange}
+          />
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,7 +1,18 @@
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useMemo, useRef } from 'react'
 import { parseTalentString, type ParsedTalentData } from '../lib/talentParser'
-import { useSpecData } from '../hooks/useSpecData'
+import { useSpecData, useSpecIndex } from '../hooks/useSpecData'
 import { getSelectedHeroTree } from '../lib/heroTreeDetection'
+import { validateBuild } from '../lib/buildValidation'
+import { TalentStringError, formatErrorLocation } from '../lib/talentStringErrors'
+import { checkDataCompatibility, checkTalentStringEnd } from '../lib/dataCompatibility'
+import {
+  buildFromSimcProfile,
+  compactSimcProfile,
+  findSimcSpec,
+  parseSimcProfile,
+  type SimcProfile,
+} from '../lib/simcProfile'
+import { findWowheadSpec, parseWowheadUrl } from '../lib/wowheadUrl'
 import './BuildInput.css'
 
 interface BuildInputProps {
@@ -10,9 +21,10 @@ interface BuildInputProps {
   initialValue?: string
   value?: string
   onValueChange?: (value: string) => void
+  snapshot?: string // Data snapshot (game build) to read the build against
 }
 
-export function BuildInput({ label, onLoad, initialValue = '', value: controlledValue, onValueChange }: BuildInputProps) {
+export function BuildInput({ label, onLoad, initialValue = '', value: controlledValue, onValueChange, snapshot }: BuildInputProps) {
   const [internalValue, setInternalValue] = useState(initialValue)
   const value = controlledValue !== undefined ? controlledValue : internalValue
   const setValue = (newValue: string) => {
@@ -23,19 +35,46 @@ export function BuildInput({ label, onLoad, initialValue = '', value: controlled
     }
   }
   const [specId, setSpecId] = useState<number | null>(null)
-  const [parsedNodes, setParsedNodes] = useState<ParsedTalentData['nodes'] | null>(null)
-  const [error, setError] = useState<string | null>(null)
+  const [parsed, setParsed] = useState<ParsedTalentData | null>(null)
+  // Export string the build was read from; SimC talent lists have none
+  const [talentString, setTalentString] = useState<string | null>(null)
+  const [error, setError] = useState<{ message: string; location: string | null } | null>(null)
+  // SimC talent lists waiting for their spec's data to load
+  const [pendingSimc, setPendingSimc] = useState<SimcProfile | null>(null)
   const lastLoadedValue = useRef<string>('')
   const inputRef = useRef<HTMLInputElement>(null)
 
   // Load spec data to get hero tree information
-  const { data: specData } = useSpecData(specId)
+  const { data: specData } = useSpecData(specId, snapshot)
+  const specIndex = useSpecIndex(snapshot)
 
   // Determine the selected hero tree
-  const heroTreeName = specData && parsedNodes
-    ? getSelectedHeroTree(specData, parsedNodes)?.name ?? null
+  const heroTreeName = specData && parsed
+    ? getSelectedHeroTree(specData, parsed.nodes)?.name ?? null
     : null
 
+  // Re-read the string against the tree's node count once the spec data is available,
+  // which catches data past the last node. Strings from other patches get the
+  // compatibility warning instead
+  const strictError = useMemo(() => {
+    if (!specData || !parsed || !talentString || specData.specId !== parsed.specId) return null
+    const stringError = checkTalentStringEnd(talentString, parsed, specData)
+    return stringError ? { message: stringError.message, location: formatErrorLocation(stringError) } : null
+  }, [specData, parsed, talentString])
+  const shownError = error ?? strictError
+
+  // Check that the string matches the loaded data's patch
+  const dataMismatches = useMemo(() => {
+    if (!specData || !parsed || specData.specId !== parsed.specId) return []
+    return checkDataCompatibility(parsed, specData)
+  }, [specData, parsed])
+
+  // Check the build against the tree's rules once the spec data is available
+  const violations = useMemo(() => {
+    if (!specData || !parsed || specData.specId !== parsed.specId) return []
+    return validateBuild(parsed, specData)
+  }, [specData, parsed])
+
   // Auto-load when value changes
   useEffect(() => {
     const trimmed = value.trim()
@@ -44,7 +83,9 @@ export function BuildInput({ label, onLoad, initialValue = '', value: controlled
     if (!trimmed) {
       if (lastLoadedValue.current) {
         setSpecId(null)
-        setParsedNodes(null)
+        setParsed(null)
+        setTalentString(null)
+        setPendingSimc(null)
         setError(null)
         lastLoadedValue.current = ''
         onLoad(null, null)
@@ -56,21 +97,80 @@ export function BuildInput({ label, onLoad, initialValue = '', value: controlled
     if (trimmed === lastLoadedValue.current) return
 
     try {
-      const data = parseTalentString(trimmed)
+      // Wowhead talent calculator links embed the export string, and a SimC
+      // profile carries either an export string or talent lists
+      const wowhead = parseWowheadUrl(trimmed)
+      const simc = wowhead ? null : parseSimcProfile(trimmed)
+      if (simc && !simc.talents) {
+        const spec = findSimcSpec(simc, specIndex)
+        if (!spec) {
+          throw new Error('Could not tell which spec this SimC profile is for - include its class and spec= lines')
+        }
+        // The build is assembled once the spec's data has loaded
+        setSpecId(spec.specId)
+        setParsed(null)
+        setTalentString(null)
+        setPendingSimc(simc)
+        setError(null)
+        lastLoadedValue.current = trimmed
+        return
+      }
+
+      const exportString = wowhead?.talentString ?? simc?.talents ?? trimmed
+      const data = parseTalentString(exportString)
+      const linkedSpec = wowhead ? findWowheadSpec(wowhead, specIndex) : null
+      if (linkedSpec && linkedSpec.specId !== data.specId) {
+        throw new Error(`This link is for ${linkedSpec.specName} ${linkedSpec.className}, but its build is for ${data.specName || `spec ${data.specId}`}`)
+      }
+
       setSpecId(data.specId)
-      setParsedNodes(data.nodes)
+      setParsed(data)
+      setTalentString(exportString)
+      setPendingSimc(null)
       setError(null)
       lastLoadedValue.current = trimmed
       onLoad(data, trimmed)
     } catch (e) {
       const errorMsg = e instanceof Error ? e.message : 'Invalid talent string'
-      setError(errorMsg)
+      const location = e instanceof TalentStringError ? formatErrorLocation(e) : null
+      setError({ message: errorMsg, location })
       setSpecId(null)
-      setParsedNodes(null)
+      setParsed(null)
+      setTalentString(null)
+      setPendingSimc(null)
       lastLoadedValue.current = ''
       onLoad(null, null)
     }
-  }, [value, onLoad])
+  }, [value, onLoad, specIndex])
+
+  // Map pending SimC talent lists onto the spec's tree
+  useEffect(() => {
+    if (!pendingSimc || !specData || specData.specId !== specId) return
+
+    setPendingSimc(null)
+    try {
+      const data = buildFromSimcProfile(pendingSimc, specData)
+      setParsed(data)
+      onLoad(data, lastLoadedValue.current)
+    } catch (e) {
+      setError({ message: e instanceof Error ? e.message : 'Invalid SimC profile', location: null })
+      setSpecId(null)
+      lastLoadedValue.current = ''
+      onLoad(null, null)
+    }
+  }, [pendingSimc, specData, specId, onLoad])
+
+  // Inputs drop line breaks, so keep a pasted profile's talent options on one line
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const text = e.clipboardData.getData('text')
+    if (!text.includes('\n')) return
+
+    const compact = compactSimcProfile(text)
+    if (compact.includes('talents=')) {
+      e.preventDefault()
+      setValue(compact)
+    }
+  }
 
   const handleFocus = () => {
     inputRef.current?.select()
@@ -93,9 +193,25 @@ export function BuildInput({ label, onLoad, initialValue = '', value: controlled
         value={value}
         onChange={(e) => setValue(e.target.value)}
         onFocus={handleFocus}
-        placeholder={`Paste ${label} talent string...`}
+        onPaste={handlePaste}
+        placeholder={`Paste ${label} talent string, Wowhead link or SimC profile...`}
       />
-      {error && <div className="build-input-error">{error}</div>}
+      {shownError && (
+        <div className="build-input-error">
+          {shownError.message}
+          {shownError.location && <span className="build-input-error-location"> (at {shownError.location})</span>}
+        </div>
+      )}
+      {dataMismatches.map(mismatch => (
+        <div key={mismatch.type} className="build-input-warning">{mismatch.message}</div>
+      ))}
+      {violations.length > 0 && (
+        <ul className="build-input-violations">
+          {violations.map((violation, i) => (
+            <li key={i}>{violation.message}</li>
+          ))}
+        </ul>
+      )}
     </div>
   )
 }
@@ -0,0 +1,205 @@
+import { useState, useMemo } from 'react'
+import type { ParsedTalentData, TalentNodeSelection } from '../lib/talentParser'
+import type { SpecTalentData } from '../data/types'
+import { useSpecData } from '../hooks/useSpecData'
+import { migrateBuild } from '../lib/buildMigration'
+import { createBuildMatrix, type BuildMatrixCell, type BuildMatrixRow } from '../lib/buildMatrix'
+import { getNodeSections, type TreeSection } from '../lib/treeSections'
+import { getBuildLabel } from '../lib/buildLabels'
+import { SECTION_ORDER } from '../lib/diffGroups'
+import { TalentTreeView } from './TalentTreeView'
+import { SnapshotSelect } from './SnapshotSelect'
+import './BuildMatrixView.css'
+
+interface BuildMatrixViewProps {
+  builds: { label: string; build: ParsedTalentData }[]
+  snapshotA: string
+  snapshotB: string // Every build is shown on Build B's tree
+  onSnapshotAChange: (snapshot: string) => void
+  onSnapshotBChange: (snapshot: string) => void
+  onTreeWidthChange?: (width: number) => void
+}
+
+export function BuildMatrixView({
+  builds,
+  snapshotA,
+  snapshotB,
+  onSnapshotAChange,
+  onSnapshotBChange,
+  onTreeWidthChange,
+}: BuildMatrixViewProps) {
+  const specId = builds[0].build.specId
+  const specDataA = useSpecData(specId, snapshotA)
+  const { data: specData, loading, error } = useSpecData(specId, snapshotB)
+  const [showAll, setShowAll] = useState(false)
+  const [highlightedNodeIndex, setHighlightedNodeIndex] = useState<number | null>(null)
+
+  // Build A is migrated onto Build B's tree when it was read against another patch
+  const alignedBuilds = useMemo(() => {
+    if (!specData) return null
+    if (snapshotA === snapshotB) return builds
+    if (!specDataA.data) return null
+    return builds.map(entry => entry.label === getBuildLabel(0)
+      ? { ...entry, build: migrateBuild(entry.build, specDataA.data!, specData).build }
+      : entry
+    )
+  }, [builds, snapshotA, snapshotB, specData, specDataA.data])
+
+  const matrix = useMemo(() => {
+    if (!specData || !alignedBuilds) return null
+    return createBuildMatrix(alignedBuilds.map(entry => entry.build), specData)
+  }, [alignedBuilds, specData])
+
+  // Show every node taken by any build, using the first build's choice for the icon
+  const unionNodes = useMemo(() => {
+    if (!alignedBuilds) return []
+    const nodes = new Map<number, TalentNodeSelection>()
+    for (const { build } of alignedBuilds) {
+      for (const selection of build.nodes) {
+        if (selection.isSelected && !nodes.has(selection.nodeIndex)) {
+          nodes.set(selection.nodeIndex, selection)
+        }
+      }
+    }
+    return [...nodes.values()]
+  }, [alignedBuilds])
+
+  // Group rows by tree section, in tree order, skipping hero selector nodes
+  const groupedRows = useMemo(() => {
+    const groups: Record<TreeSection, BuildMatrixRow[]> = { class: [], spec: [], hero: [] }
+    if (!matrix || !specData) return groups
+
+    const sections = getNodeSections(specData)
+    for (const row of matrix.rows) {
+      const node = specData.nodes[row.nodeIndex]
+      if (node.type === 3 || (!showAll && row.isUniform)) continue
+      groups[sections.get(node.id) ?? 'class'].push(row)
+    }
+    for (const rows of Object.values(groups)) {
+      rows.sort((a, b) => {
+        const nodeA = specData.nodes[a.nodeIndex]
+        const nodeB = specData.nodes[b.nodeIndex]
+        return nodeA.posY - nodeB.posY || nodeA.posX - nodeB.posX
+      })
+    }
+    return groups
+  }, [matrix, specData, showAll])
+
+  const renderCell = (row: BuildMatrixRow, cell: BuildMatrixCell | null, buildIndex: number, specData: SpecTalentData) => {
+    if (!cell) {
+      return <td key={buildIndex} className="build-matrix-cell build-matrix-cell-empty">–</td>
+    }
+
+    const node = specData.nodes[row.nodeIndex]
+    const parts: string[] = []
+    if (cell.choiceEntryIndex !== undefined) {
+      parts.push(node.entries[cell.choiceEntryIndex]?.name || `Option ${cell.choiceEntryIndex + 1}`)
+    }
+    if (cell.maxRanks > 1) {
+      parts.push(`${cell.ranks}/${cell.maxRanks}`)
+    }
+    if (cell.isGranted) {
+      parts.push('granted')
+    }
+
+    return (
+      <td key={buildIndex} className="build-matrix-cell build-matrix-cell-taken">
+        {parts.length > 0 ? parts.join(' · ') : '✓'}
+      </td>
+    )
+  }
+
+  const renderSection = (section: TreeSection, specData: SpecTalentData) => {
+    const rows = groupedRows[section]
+    if (rows.length === 0) return null
+
+    return (
+      <tbody key={section}>
+        <tr className="build-matrix-section">
+          <th colSpan={builds.length + 2}>
+            {section === 'class' ? 'Class' : section === 'spec' ? 'Spec' : 'Hero'} Talents ({rows.length})
+          </th>
+        </tr>
+        {rows.map(row => {
+          const node = specData.nodes[row.nodeIndex]
+          return (
+            <tr
+              key={row.nodeIndex}
+              className={row.isUniform ? 'build-matrix-uniform' : ''}
+              onMouseEnter={() => setHighlightedNodeIndex(row.nodeIndex)}
+              onMouseLeave={() => setHighlightedNodeIndex(null)}
+            >
+              <th scope="row" className="build-matrix-name">
+                {node.entries.length > 1
+                  ? node.entries.map(e => e.name).join(' / ')
+                  : node.entries[0]?.name || `Node ${node.id}`}
+              </th>
+              {row.cells.map((cell, i) => renderCell(row, cell, i, specData))}
+              <td className="build-matrix-count">{row.count}/{builds.length}</td>
+            </tr>
+          )
+        })}
+      </tbody>
+    )
+  }
+
+  return (
+    <div className="compare-view build-matrix-view">
+      <div className="compare-view-header">
+        <h3>
+          {builds[0].build.specName || `Spec ${specId}`}
+          <span className="compare-view-class"> {builds.length} builds</span>
+        </h3>
+        <div className="compare-view-controls">
+          <div className="compare-view-builds">
+            <span className="compare-view-build-label build-a">Build A</span>
+            <SnapshotSelect label="Build A" value={snapshotA} onChange={onSnapshotAChange} />
+            <span className="compare-view-vs">→</span>
+            <span className="compare-view-build-label build-b">Other builds</span>
+            <SnapshotSelect label="Other builds" value={snapshotB} onChange={onSnapshotBChange} />
+          </div>
+          <label className="build-matrix-toggle">
+            <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+            Show talents every build shares
+          </label>
+        </div>
+      </div>
+
+      {loading && (
+        <div className="compare-view-loading">Loading talent tree data...</div>
+      )}
+
+      {error && (
+        <div className="compare-view-error">{error}</div>
+      )}
+
+      {specData && matrix && (
+        <>
+          <TalentTreeView
+            specData={specData}
+            selectedNodes={unionNodes}
+            coverage={matrix.coverage}
+            coverageTotal={matrix.buildCount}
+            onDimensionsChange={onTreeWidthChange}
+            highlightedNodeIndex={highlightedNodeIndex}
+          />
+
+          {SECTION_ORDER.every(section => groupedRows[section].length === 0) && (
+            <div className="info-message">Every build takes the same talents</div>
+          )}
+
+          <table className="build-matrix">
+            <thead>
+              <tr>
+                <th>Talent</th>
+                {builds.map(entry => <th key={entry.label}>{entry.label}</th>)}
+                <th>Builds</th>
+              </tr>
+            </thead>
+            {SECTION_ORDER.map(section => renderSection(section, specData))}
+          </table>
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,54 +1,109 @@
-import { useState } from 'react'
+import { useState, useRef } from 'react'
 import { BuildInput } from './BuildInput'
 import type { ParsedTalentData } from '../lib/talentParser'
+import { getBuildLabel, MAX_BUILDS } from '../lib/buildLabels'
 import './CompareInput.css'
 
 interface CompareInputProps {
-  onBuildAChange: (data: ParsedTalentData | null, rawString: string | null) => void
-  onBuildBChange: (data: ParsedTalentData | null, rawString: string | null) => void
-  initialBuildA?: string
-  initialBuildB?: string
+  onBuildChange: (index: number, data: ParsedTalentData | null, rawString: string | null) => void
+  onBuildAdd: () => void
+  onBuildRemove: (index: number) => void
+  initialBuilds?: string[]
+  snapshotA?: string
+  snapshotB?: string // Also used for every build after Build B
+}
+
+interface BuildField {
+  key: number // Stable key so inputs keep their state when an earlier one is removed
+  value: string
 }
 
 export function CompareInput({
-  onBuildAChange,
-  onBuildBChange,
-  initialBuildA = '',
-  initialBuildB = '',
+  onBuildChange,
+  onBuildAdd,
+  onBuildRemove,
+  initialBuilds = [],
+  snapshotA,
+  snapshotB,
 }: CompareInputProps) {
-  const [buildAValue, setBuildAValue] = useState(initialBuildA)
-  const [buildBValue, setBuildBValue] = useState(initialBuildB)
+  // Always show at least Build A and Build B
+  const [fields, setFields] = useState<BuildField[]>(() => {
+    const values = [...initialBuilds]
+    while (values.length < 2) values.push('')
+    return values.map((value, key) => ({ key, value }))
+  })
+  const nextKey = useRef(Math.max(initialBuilds.length, 2))
+
+  const setValue = (index: number, value: string) => {
+    setFields(current => current.map((field, i) => i === index ? { ...field, value } : field))
+  }
 
   const handleSwap = () => {
-    const tempA = buildAValue
-    setBuildAValue(buildBValue)
-    setBuildBValue(tempA)
+    setFields(current => [
+      { ...current[0], value: current[1].value },
+      { ...current[1], value: current[0].value },
+      ...current.slice(2),
+    ])
+  }
+
+  const handleAdd = () => {
+    const key = nextKey.current++
+    setFields(current => [...current, { key, value: '' }])
+    onBuildAdd()
+  }
+
+  const handleRemove = (index: number) => {
+    setFields(current => current.filter((_, i) => i !== index))
+    onBuildRemove(index)
   }
 
+  const renderInput = (field: BuildField, index: number) => (
+    <BuildInput
+      key={field.key}
+      label={getBuildLabel(index)}
+      onLoad={(data, rawString) => onBuildChange(index, data, rawString)}
+      value={field.value}
+      onValueChange={(value) => setValue(index, value)}
+      snapshot={index === 0 ? snapshotA : snapshotB}
+    />
+  )
+
   return (
-    <div className="compare-input">
-      <BuildInput
-        label="Build A"
-        onLoad={onBuildAChange}
-        value={buildAValue}
-        onValueChange={setBuildAValue}
-      />
-      <div className="compare-input-divider">
-        <button
-          className="compare-input-swap"
-          onClick={handleSwap}
-          title="Swap builds"
-          aria-label="Swap Build A and Build B"
-        >
-          ⇄
-        </button>
+    <div className="compare-input-list">
+      <div className="compare-input">
+        {renderInput(fields[0], 0)}
+        <div className="compare-input-divider">
+          <button
+            className="compare-input-swap"
+            onClick={handleSwap}
+            title="Swap builds"
+            aria-label="Swap Build A and Build B"
+          >
+            ⇄
+          </button>
+        </div>
+        {renderInput(fields[1], 1)}
       </div>
-      <BuildInput
-        label="Build B"
-        onLoad={onBuildBChange}
-        value={buildBValue}
-        onValueChange={setBuildBValue}
-      />
+
+      {fields.slice(2).map((field, i) => (
+        <div key={field.key} className="compare-input-extra">
+          {renderInput(field, i + 2)}
+          <button
+            className="compare-input-remove"
+            onClick={() => handleRemove(i + 2)}
+            title={`Remove ${getBuildLabel(i + 2)}`}
+            aria-label={`Remove ${getBuildLabel(i + 2)}`}
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+
+      {fields.length < MAX_BUILDS && (
+        <button className="compare-input-add" onClick={handleAdd}>
+          + Add build
+        </button>
+      )}
     </div>
   )
 }
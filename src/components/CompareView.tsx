@@ -1,9 +1,18 @@
 import { useState, useEffect, useMemo } from 'react'
-import type { ParsedTalentData } from '../lib/talentParser'
+import { serializeTalentString, type ParsedTalentData } from '../lib/talentParser'
 import { diffTalentBuilds, type TalentDiffResult } from '../lib/talentDiff'
-import { useSpecData } from '../hooks/useSpecData'
+import { useSpecData, useSnapshots } from '../hooks/useSpecData'
+import { migrateBuild, type MigrationResult } from '../lib/buildMigration'
+import type { SpecTalentData } from '../data/types'
+import { createWowheadUrl } from '../lib/wowheadUrl'
+import { resolveBuild } from '../lib/buildResolver'
+import { getPointBudget, type PointBudget, type SectionBudget } from '../lib/pointAccounting'
+import { SECTION_ORDER } from '../lib/diffGroups'
+import type { TreeSection } from '../lib/treeSections'
 import { DiffSummaryPanel } from './DiffSummaryPanel'
 import { TalentTreeView } from './TalentTreeView'
+import { MigrationSummary } from './MigrationSummary'
+import { SnapshotSelect } from './SnapshotSelect'
 import './CompareView.css'
 
 type ViewMode = 'buildA' | 'buildB' | 'comparison'
@@ -11,11 +20,27 @@ type ViewMode = 'buildA' | 'buildB' | 'comparison'
 interface CompareViewProps {
   buildA: ParsedTalentData
   buildB: ParsedTalentData
+  snapshotA: string
+  snapshotB: string
+  onSnapshotAChange: (snapshot: string) => void
+  onSnapshotBChange: (snapshot: string) => void
   onTreeWidthChange?: (width: number) => void
 }
 
-export function CompareView({ buildA, buildB, onTreeWidthChange }: CompareViewProps) {
-  const { data: specData, loading, error } = useSpecData(buildA.specId)
+const SECTION_NAMES: Record<TreeSection, string> = { class: 'Class', spec: 'Spec', hero: 'Hero' }
+
+export function CompareView({
+  buildA,
+  buildB,
+  snapshotA,
+  snapshotB,
+  onSnapshotAChange,
+  onSnapshotBChange,
+  onTreeWidthChange,
+}: CompareViewProps) {
+  const snapshots = useSnapshots()
+  const specDataA = useSpecData(buildA.specId, snapshotA)
+  const specDataB = useSpecData(buildB.specId, snapshotB)
   const [treeWidth, setTreeWidth] = useState<number | undefined>(undefined)
   const [highlightedNodeIndex, setHighlightedNodeIndex] = useState<number | null>(null)
 
@@ -45,10 +70,22 @@ export function CompareView({ buildA, buildB, onTreeWidthChange }: CompareViewPr
     window.history.replaceState({}, '', url.toString())
   }, [viewMode])
 
+  // Build A's own tree is shown in Build A mode; comparisons are drawn on Build B's tree
+  const { data: specData, loading, error } = viewMode === 'buildA' ? specDataA : specDataB
+
+  // Migrate Build A onto Build B's tree when they were read against different patches
+  const migrationA = useMemo<MigrationResult | null>(() => {
+    if (snapshotA === snapshotB || !specDataA.data || !specDataB.data) return null
+    return migrateBuild(buildA, specDataA.data, specDataB.data)
+  }, [buildA, snapshotA, snapshotB, specDataA.data, specDataB.data])
+
+  const alignedBuildA = snapshotA === snapshotB ? buildA : migrationA?.build ?? null
+
   // Always compute diffResult for DiffSummaryPanel
-  const diffResult = useMemo<TalentDiffResult>(() => {
-    return diffTalentBuilds(buildA, buildB)
-  }, [buildA, buildB])
+  const diffResult = useMemo<TalentDiffResult | null>(() => {
+    if (!alignedBuildA) return null
+    return diffTalentBuilds(alignedBuildA, buildB, specDataB.data ?? undefined)
+  }, [alignedBuildA, buildB, specDataB.data])
 
   // Compute selectedNodes, diffResultToPass, and comparisonNodes based on view mode
   const { selectedNodes, diffResultToPass, comparisonNodes } = useMemo(() => {
@@ -59,8 +96,62 @@ export function CompareView({ buildA, buildB, onTreeWidthChange }: CompareViewPr
       return { selectedNodes: buildB.nodes, diffResultToPass: undefined, comparisonNodes: undefined }
     }
     // Comparison mode: show Build B with diff highlighting, pass Build A for comparison
-    return { selectedNodes: buildB.nodes, diffResultToPass: diffResult, comparisonNodes: buildA.nodes }
-  }, [viewMode, buildA.nodes, buildB.nodes, diffResult])
+    return { selectedNodes: buildB.nodes, diffResultToPass: diffResult ?? undefined, comparisonNodes: alignedBuildA?.nodes }
+  }, [viewMode, buildA.nodes, buildB.nodes, diffResult, alignedBuildA])
+
+  // Points each build spends per section, each read against its own patch's tree
+  const budgets = useMemo(() => {
+    if (!specDataA.data || !specDataB.data) return null
+    return {
+      a: getPointBudget(resolveBuild(buildA, specDataA.data), specDataA.data),
+      b: getPointBudget(resolveBuild(buildB, specDataB.data), specDataB.data),
+    }
+  }, [buildA, buildB, specDataA.data, specDataB.data])
+
+  const renderBudget = (label: string, budget: SectionBudget) => {
+    const difference = Math.abs(budget.limit - budget.spent)
+    const title = budget.status === 'under'
+      ? `${label}: ${difference} point${difference > 1 ? 's' : ''} unspent`
+      : budget.status === 'over'
+        ? `${label}: ${difference} point${difference > 1 ? 's' : ''} over the limit`
+        : `${label}: every point spent`
+    return (
+      <span className={`compare-view-budget-points ${budget.status}`} title={title}>
+        {budget.spent}/{budget.limit}
+      </span>
+    )
+  }
+
+  const renderBudgets = (a: PointBudget, b: PointBudget) => (
+    <div className="compare-view-budgets">
+      {SECTION_ORDER.map(section => (
+        <div key={section} className="compare-view-budget">
+          <span className="compare-view-budget-section">{SECTION_NAMES[section]}</span>
+          {renderBudget('Build A', a[section])}
+          <span className="compare-view-vs">→</span>
+          {renderBudget('Build B', b[section])}
+        </div>
+      ))}
+    </div>
+  )
+
+  // Link a build to Wowhead's calculator for the branch its patch is from
+  const renderWowheadLink = (label: string, build: ParsedTalentData, snapshot: string, data: SpecTalentData | null) => {
+    if (!data) return null
+    const branch = snapshots.find(s => s.gameBuild === snapshot)?.branch
+    const url = createWowheadUrl(serializeTalentString(build), data.className, data.specName, branch)
+    return (
+      <a
+        className="compare-view-wowhead"
+        href={url}
+        target="_blank"
+        rel="noopener noreferrer"
+        title={`Open ${label} in Wowhead's talent calculator`}
+      >
+        Wowhead
+      </a>
+    )
+  }
 
   return (
     <div className="compare-view">
@@ -72,8 +163,12 @@ export function CompareView({ buildA, buildB, onTreeWidthChange }: CompareViewPr
         <div className="compare-view-controls">
           <div className="compare-view-builds">
             <span className="compare-view-build-label build-a">Build A</span>
+            <SnapshotSelect label="Build A" value={snapshotA} onChange={onSnapshotAChange} />
+            {renderWowheadLink('Build A', buildA, snapshotA, specDataA.data)}
             <span className="compare-view-vs">→</span>
             <span className="compare-view-build-label build-b">Build B</span>
+            <SnapshotSelect label="Build B" value={snapshotB} onChange={onSnapshotBChange} />
+            {renderWowheadLink('Build B', buildB, snapshotB, specDataB.data)}
           </div>
           <div className="view-mode-switcher">
             <button
@@ -99,6 +194,7 @@ export function CompareView({ buildA, buildB, onTreeWidthChange }: CompareViewPr
             </button>
           </div>
         </div>
+        {budgets && renderBudgets(budgets.a, budgets.b)}
       </div>
 
       {loading && (
@@ -109,6 +205,15 @@ export function CompareView({ buildA, buildB, onTreeWidthChange }: CompareViewPr
         <div className="compare-view-error">{error}</div>
       )}
 
+      {migrationA && (
+        <MigrationSummary
+          label="Build A"
+          fromSnapshot={snapshotA}
+          toSnapshot={snapshotB}
+          migration={migrationA}
+        />
+      )}
+
       {specData && (
         <TalentTreeView
           specData={specData}
@@ -120,12 +225,14 @@ export function CompareView({ buildA, buildB, onTreeWidthChange }: CompareViewPr
         />
       )}
 
-      <DiffSummaryPanel
-        diffResult={diffResult}
-        specData={specData}
-        treeWidth={treeWidth}
-        onHighlightNode={setHighlightedNodeIndex}
-      />
+      {diffResult && (
+        <DiffSummaryPanel
+          diffResult={diffResult}
+          specData={specDataB.data}
+          treeWidth={treeWidth}
+          onHighlightNode={setHighlightedNodeIndex}
+        />
+      )}
 
       {!specData && !loading && !error && (
         <div className="compare-view-no-data">
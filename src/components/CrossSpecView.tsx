@@ -0,0 +1,131 @@
+import { useState, useMemo } from 'react'
+import type { ParsedTalentData } from '../lib/talentParser'
+import type { SpecTalentData } from '../data/types'
+import { useSpecData } from '../hooks/useSpecData'
+import { compareAcrossSpecs } from '../lib/crossSpecDiff'
+import type { ResolvedTalent } from '../lib/buildResolver'
+import { DiffSummaryPanel } from './DiffSummaryPanel'
+import { SnapshotSelect } from './SnapshotSelect'
+import { TalentTreeView } from './TalentTreeView'
+import './CrossSpecView.css'
+
+interface CrossSpecViewProps {
+  buildA: ParsedTalentData
+  buildB: ParsedTalentData
+  snapshotA: string
+  snapshotB: string
+  onSnapshotAChange: (snapshot: string) => void
+  onSnapshotBChange: (snapshot: string) => void
+  onTreeWidthChange?: (width: number) => void
+}
+
+export function CrossSpecView({
+  buildA,
+  buildB,
+  snapshotA,
+  snapshotB,
+  onSnapshotAChange,
+  onSnapshotBChange,
+  onTreeWidthChange,
+}: CrossSpecViewProps) {
+  const specDataA = useSpecData(buildA.specId, snapshotA)
+  const specDataB = useSpecData(buildB.specId, snapshotB)
+  const [treeWidth, setTreeWidth] = useState<number | undefined>(undefined)
+  const [highlightedNodeIndex, setHighlightedNodeIndex] = useState<number | null>(null)
+
+  const comparison = useMemo(() => {
+    if (!specDataA.data || !specDataB.data) return null
+    return compareAcrossSpecs(buildA, specDataA.data, buildB, specDataB.data)
+  }, [buildA, buildB, specDataA.data, specDataB.data])
+
+  const handleDimensionsChange = (width: number) => {
+    setTreeWidth(width)
+    onTreeWidthChange?.(width)
+  }
+
+  const loading = specDataA.loading || specDataB.loading
+  const error = specDataA.error || specDataB.error
+
+  const renderTalentList = (title: string, talents: ResolvedTalent[], specData: SpecTalentData) => (
+    <div className="cross-spec-column">
+      <h5>{title} ({talents.length})</h5>
+      <ul>
+        {talents.map(talent => {
+          const name = talent.entry?.name || specData.nodes[talent.nodeIndex]?.entries[0]?.name || `Node ${talent.nodeId}`
+          return (
+            <li key={talent.nodeId}>
+              {name}
+              {talent.maxRanks > 1 && <span className="cross-spec-rank"> {talent.ranks}/{talent.maxRanks}</span>}
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+
+  return (
+    <div className="compare-view cross-spec-view">
+      <div className="compare-view-header">
+        <h3>
+          {specDataA.data?.specName ?? buildA.specName} vs {specDataB.data?.specName ?? buildB.specName}
+          {specDataB.data && <span className="compare-view-class"> {specDataB.data.className}</span>}
+        </h3>
+        <div className="compare-view-builds">
+          <span className="compare-view-build-label build-a">Build A</span>
+          <SnapshotSelect label="Build A" value={snapshotA} onChange={onSnapshotAChange} />
+          <span className="compare-view-vs">→</span>
+          <span className="compare-view-build-label build-b">Build B</span>
+          <SnapshotSelect label="Build B" value={snapshotB} onChange={onSnapshotBChange} />
+        </div>
+        <span className="cross-spec-note">Different specs - only the shared class tree is compared</span>
+      </div>
+
+      {loading && (
+        <div className="compare-view-loading">Loading talent tree data...</div>
+      )}
+
+      {error && (
+        <div className="compare-view-error">{error}</div>
+      )}
+
+      {comparison && specDataA.data && specDataB.data && (
+        <>
+          <TalentTreeView
+            specData={specDataB.data}
+            selectedNodes={comparison.buildB.nodes}
+            diffResult={comparison.diff}
+            comparisonNodes={comparison.buildA.nodes}
+            visibleNodeIds={comparison.sharedNodeIds}
+            onDimensionsChange={handleDimensionsChange}
+            highlightedNodeIndex={highlightedNodeIndex}
+          />
+
+          <DiffSummaryPanel
+            diffResult={comparison.diff}
+            specData={specDataB.data}
+            treeWidth={treeWidth}
+            onHighlightNode={setHighlightedNodeIndex}
+            classTreeOnly
+          />
+
+          <div className="cross-spec-sections">
+            <div className="cross-spec-section">
+              <h4>Spec Talents</h4>
+              <div className="cross-spec-columns">
+                {renderTalentList(`Build A: ${specDataA.data.specName}`, comparison.specTalents.a, specDataA.data)}
+                {renderTalentList(`Build B: ${specDataB.data.specName}`, comparison.specTalents.b, specDataB.data)}
+              </div>
+            </div>
+            <div className="cross-spec-section">
+              <h4>Hero Talents</h4>
+              <div className="cross-spec-columns">
+                {renderTalentList(`Build A: ${specDataA.data.specName}`, comparison.heroTalents.a, specDataA.data)}
+                {renderTalentList(`Build B: ${specDataB.data.specName}`, comparison.heroTalents.b, specDataB.data)}
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,10 @@
 import { useState, useEffect, useMemo, useRef } from 'react'
 import type { TalentDiffResult, TalentDiffNode } from '../lib/talentDiff'
 import type { SpecTalentData } from '../data/types'
+import { groupDiffBySection, countSectionChanges } from '../lib/diffGroups'
+import { createSimcProfilesets } from '../lib/simcExport'
+import { planRespec, type RespecStep } from '../lib/respecPlanner'
+import { formatDiffDiscord, formatDiffJson, formatDiffMarkdown } from '../lib/diffExport'
 import './DiffSummaryPanel.css'
 
 // Declare Wowhead's global refresh function
@@ -12,104 +16,55 @@ declare global {
   }
 }
 
-type TreeType = 'class' | 'spec' | 'hero'
+type CopyFormat = 'simc' | 'markdown' | 'discord' | 'json'
+
+interface CopyFormatOption {
+  label: string
+  title: string // Button tooltip
+  format: (diffResult: TalentDiffResult, specData: SpecTalentData) => string
+}
+
+const COPY_FORMATS: Record<CopyFormat, CopyFormatOption> = {
+  simc: {
+    label: 'Copy SimC profilesets',
+    title: 'Copy Build A as a SimC profile, with Build B and each change as profilesets',
+    format: createSimcProfilesets,
+  },
+  markdown: {
+    label: 'Copy Markdown',
+    title: 'Copy the changes as Markdown, for documents and wikis',
+    format: formatDiffMarkdown,
+  },
+  discord: {
+    label: 'Copy for Discord',
+    title: 'Copy the changes as plain text with emoji markers',
+    format: formatDiffDiscord,
+  },
+  json: {
+    label: 'Copy JSON',
+    title: 'Copy the changes as structured JSON',
+    format: formatDiffJson,
+  },
+}
 
 interface DiffSummaryPanelProps {
   diffResult: TalentDiffResult
   specData: SpecTalentData | null
   treeWidth?: number
   onHighlightNode?: (nodeIndex: number | null) => void
+  // The diff only covers the class tree two specs share. The SimC profilesets and respec
+  // steps need whole builds of one spec, so they are not offered
+  classTreeOnly?: boolean
 }
 
-export function DiffSummaryPanel({ diffResult, specData, treeWidth, onHighlightNode }: DiffSummaryPanelProps) {
+export function DiffSummaryPanel({ diffResult, specData, treeWidth, onHighlightNode, classTreeOnly = false }: DiffSummaryPanelProps) {
   const [isOpen, setIsOpen] = useState(true)
   const [iconsReady, setIconsReady] = useState(false)
+  const [copiedFormat, setCopiedFormat] = useState<CopyFormat | null>(null)
+  const [showRespec, setShowRespec] = useState(false)
+  const [showHeroSwitch, setShowHeroSwitch] = useState(false)
   const contentRef = useRef<HTMLDivElement>(null)
 
-  const { summary } = diffResult
-
-  // Calculate column separators and hero tree nodes to determine class vs spec vs hero tree
-  const getTreeType = useMemo(() => {
-    if (!specData) return () => 'class' as TreeType
-
-    const allNodes = specData.nodes
-    const allEdges = specData.edges
-
-    // Build adjacency map for all nodes
-    const adjacency = new Map<number, Set<number>>()
-    allNodes.forEach(n => adjacency.set(n.id, new Set()))
-    allEdges.forEach(edge => {
-      adjacency.get(edge.fromNodeId)?.add(edge.toNodeId)
-      adjacency.get(edge.toNodeId)?.add(edge.fromNodeId)
-    })
-
-    // Find connected components via BFS
-    const visited = new Set<number>()
-    const components: number[][] = []
-    const nodeIdToComponent = new Map<number, number>()
-
-    for (const node of allNodes) {
-      if (visited.has(node.id)) continue
-
-      const component: number[] = []
-      const queue = [node.id]
-      while (queue.length > 0) {
-        const id = queue.shift()!
-        if (visited.has(id)) continue
-        visited.add(id)
-        component.push(id)
-        adjacency.get(id)?.forEach(n => {
-          if (!visited.has(n)) queue.push(n)
-        })
-      }
-
-      const componentIndex = components.length
-      component.forEach(id => nodeIdToComponent.set(id, componentIndex))
-      components.push(component)
-    }
-
-    // Identify hero tree components by their size (10-25 nodes)
-    const heroTreeComponents = new Set(
-      components
-        .map((comp, idx) => ({ index: idx, size: comp.length }))
-        .filter(c => c.size >= 10 && c.size <= 25)
-        .map(c => c.index)
-    )
-
-    // Create set of hero tree node IDs (by original index)
-    const heroTreeNodeIndices = new Set<number>()
-    allNodes.forEach((node, idx) => {
-      const componentIdx = nodeIdToComponent.get(node.id)
-      if (componentIdx !== undefined && heroTreeComponents.has(componentIdx)) {
-        heroTreeNodeIndices.add(idx)
-      }
-    })
-
-    // Get X positions of non-hero nodes to find class/spec separator
-    const nonHeroNodes = allNodes.filter((_, idx) => !heroTreeNodeIndices.has(idx))
-    const xPositions = [...new Set(nonHeroNodes.map(n => n.posX))].sort((a, b) => a - b)
-
-    // Find the largest gap which should separate class tree from spec tree
-    let maxGap = 0
-    let separatorX = 0
-    for (let i = 1; i < xPositions.length; i++) {
-      const gap = xPositions[i] - xPositions[i - 1]
-      if (gap > maxGap) {
-        maxGap = gap
-        separatorX = (xPositions[i] + xPositions[i - 1]) / 2
-      }
-    }
-
-    return (nodeIndex: number): TreeType => {
-      // Check if it's a hero tree node first
-      if (heroTreeNodeIndices.has(nodeIndex)) return 'hero'
-
-      const node = specData.nodes[nodeIndex]
-      if (!node) return 'class'
-      return node.posX < separatorX ? 'class' : 'spec'
-    }
-  }, [specData])
-
   const getNodeName = (nodeIndex: number): string => {
     if (!specData) return `Node ${nodeIndex}`
     const node = specData.nodes[nodeIndex]
@@ -156,40 +111,6 @@ export function DiffSummaryPanel({ diffResult, specData, treeWidth, onHighlightN
     }
   }
 
-  // Sort node indices by position in the tree (top to bottom, left to right)
-  const sortByPosition = (nodeIndices: number[]): number[] => {
-    if (!specData) return nodeIndices
-    return [...nodeIndices].sort((a, b) => {
-      const nodeA = specData.nodes[a]
-      const nodeB = specData.nodes[b]
-      if (!nodeA || !nodeB) return 0
-      // Primary sort by Y (top to bottom), secondary sort by X (left to right)
-      if (nodeA.posY !== nodeB.posY) {
-        return nodeA.posY - nodeB.posY
-      }
-      return nodeA.posX - nodeB.posX
-    })
-  }
-
-  // Group node indices by tree type, excluding hero selector nodes (type=3)
-  const groupByTree = (nodeIndices: number[]): { class: number[]; spec: number[]; hero: number[] } => {
-    const result = { class: [] as number[], spec: [] as number[], hero: [] as number[] }
-    for (const idx of nodeIndices) {
-      // Skip hero tree selector nodes (type=3) - they're implied by the hero talent changes
-      const node = specData?.nodes[idx]
-      if (node?.type === 3) continue
-
-      const treeType = getTreeType(idx)
-      result[treeType].push(idx)
-    }
-    // Sort each group by position
-    return {
-      class: sortByPosition(result.class),
-      spec: sortByPosition(result.spec),
-      hero: sortByPosition(result.hero),
-    }
-  }
-
   // Refresh Wowhead tooltips when content changes
   // Hide content until all icons have loaded to prevent layout shift
   useEffect(() => {
@@ -242,15 +163,45 @@ export function DiffSummaryPanel({ diffResult, specData, treeWidth, onHighlightN
   }, [diffResult, specData, isOpen])
 
   // Get all changes grouped by tree type (this also filters out type=3 selector nodes)
-  const groupedAdded = groupByTree(summary.added)
-  const groupedRemoved = groupByTree(summary.removed)
-  const groupedChanged = groupByTree(summary.changed)
+  const grouped = useMemo(() => groupDiffBySection(diffResult, specData), [diffResult, specData])
 
-  const classTotal = groupedAdded.class.length + groupedRemoved.class.length + groupedChanged.class.length
-  const specTotal = groupedAdded.spec.length + groupedRemoved.spec.length + groupedChanged.spec.length
-  const heroTotal = groupedAdded.hero.length + groupedRemoved.hero.length + groupedChanged.hero.length
+  // A hero tree switch counts as one change, with its per-node changes folded under it
+  const { heroTreeChange } = diffResult
+  const unswitchedHero = useMemo(() => {
+    const switched = new Set(heroTreeChange?.nodeIndices)
+    const isUnswitched = (nodeIndex: number) => !switched.has(nodeIndex)
+    return {
+      added: grouped.hero.added.filter(isUnswitched),
+      removed: grouped.hero.removed.filter(isUnswitched),
+      changed: grouped.hero.changed.filter(isUnswitched),
+    }
+  }, [grouped, heroTreeChange])
+  const heroChanges = showHeroSwitch ? grouped.hero : unswitchedHero
+
+  const classTotal = countSectionChanges(grouped, 'class')
+  const specTotal = countSectionChanges(grouped, 'spec')
+  const heroTotal = heroTreeChange
+    ? 1 + unswitchedHero.added.length + unswitchedHero.removed.length + unswitchedHero.changed.length
+    : countSectionChanges(grouped, 'hero')
   const totalChanges = classTotal + specTotal + heroTotal
 
+  // Order of in-game refunds and purchases that turns Build A into Build B
+  const respecPlan = useMemo(() => {
+    if (!specData || !showRespec || classTreeOnly) return null
+    return planRespec(diffResult, specData)
+  }, [diffResult, specData, showRespec, classTreeOnly])
+
+  const copyFormats = (Object.keys(COPY_FORMATS) as CopyFormat[]).filter(format => !classTreeOnly || format !== 'simc')
+
+  // Copy the changes to the clipboard in one of the export formats
+  const handleCopy = (format: CopyFormat) => {
+    if (!specData) return
+    navigator.clipboard?.writeText(COPY_FORMATS[format].format(diffResult, specData)).then(() => {
+      setCopiedFormat(format)
+      setTimeout(() => setCopiedFormat(current => current === format ? null : current), 1500)
+    })
+  }
+
   // Render a spell link with Wowhead tooltip
   const renderSpellLink = (name: string, spellId: number | null) => {
     if (spellId) {
@@ -322,6 +273,25 @@ export function DiffSummaryPanel({ diffResult, specData, treeWidth, onHighlightN
     )
   }
 
+  const renderRespecStep = (step: RespecStep, specData: SpecTalentData) => {
+    const ranks = step.fromRanks !== step.toRanks && specData.nodes[step.nodeIndex].maxRanks > 1
+      ? ` (${step.fromRanks} → ${step.toRanks})`
+      : ''
+
+    return (
+      <li
+        key={`${step.type}-${step.nodeIndex}`}
+        className={`diff-respec-${step.type}`}
+        onMouseEnter={() => onHighlightNode?.(step.nodeIndex)}
+        onMouseLeave={() => onHighlightNode?.(null)}
+      >
+        {step.type === 'refund' && <>Refund {step.name}{ranks}</>}
+        {step.type === 'purchase' && <>Buy {step.name}{ranks}</>}
+        {step.type === 'switch' && <>Switch {step.fromChoice} → {step.name}</>}
+      </li>
+    )
+  }
+
   // Render a change type subsection (added/removed/changed) within a tree column
   const renderChangeSubsection = (
     changeType: 'added' | 'removed' | 'changed',
@@ -377,14 +347,41 @@ export function DiffSummaryPanel({ diffResult, specData, treeWidth, onHighlightN
 
       {isOpen && (
         <div ref={contentRef} className={`diff-summary-content ${iconsReady ? 'icons-ready' : ''}`}>
+          {specData && (
+            <div className="diff-summary-actions">
+              {copyFormats.map(format => (
+                <button key={format} onClick={() => handleCopy(format)} title={COPY_FORMATS[format].title}>
+                  {copiedFormat === format ? 'Copied' : COPY_FORMATS[format].label}
+                </button>
+              ))}
+              {!classTreeOnly && (
+                <button onClick={() => setShowRespec(!showRespec)} aria-pressed={showRespec}>
+                  {showRespec ? 'Hide respec steps' : 'Show respec steps'}
+                </button>
+              )}
+            </div>
+          )}
+          {respecPlan && specData && (
+            <div className="diff-respec" style={treeWidth ? { maxWidth: treeWidth, margin: '0 auto' } : undefined}>
+              <h4>Respec steps ({respecPlan.steps.length})</h4>
+              <ol>
+                {respecPlan.steps.map(step => renderRespecStep(step, specData))}
+              </ol>
+              {respecPlan.blocked.length > 0 && (
+                <div className="diff-respec-blocked">
+                  No legal order found for {respecPlan.blocked.map(getNodeName).join(', ')}
+                </div>
+              )}
+            </div>
+          )}
           <div className="diff-tree-columns" style={treeWidth ? { maxWidth: treeWidth, margin: '0 auto' } : undefined}>
             {/* Class Talents Column */}
             {classTotal > 0 && (
               <div className="diff-tree-column diff-tree-class">
                 <h4>Class Talents ({classTotal})</h4>
-                {renderChangeSubsection('added', groupedAdded.class)}
-                {renderChangeSubsection('removed', groupedRemoved.class)}
-                {renderChangeSubsection('changed', groupedChanged.class, true)}
+                {renderChangeSubsection('added', grouped.class.added)}
+                {renderChangeSubsection('removed', grouped.class.removed)}
+                {renderChangeSubsection('changed', grouped.class.changed, true)}
               </div>
             )}
 
@@ -392,9 +389,21 @@ export function DiffSummaryPanel({ diffResult, specData, treeWidth, onHighlightN
             {heroTotal > 0 && (
               <div className="diff-tree-column diff-tree-hero">
                 <h4>Hero Talents ({heroTotal})</h4>
-                {renderChangeSubsection('added', groupedAdded.hero)}
-                {renderChangeSubsection('removed', groupedRemoved.hero)}
-                {renderChangeSubsection('changed', groupedChanged.hero, true)}
+                {heroTreeChange && (
+                  <div className="diff-hero-switch">
+                    <div className="diff-hero-switch-trees">
+                      <span>{heroTreeChange.from.name}</span>
+                      <span className="diff-arrow">→</span>
+                      <span>{heroTreeChange.to.name}</span>
+                    </div>
+                    <button onClick={() => setShowHeroSwitch(!showHeroSwitch)} aria-expanded={showHeroSwitch}>
+                      {showHeroSwitch ? 'Hide' : 'Show'} hero talent changes
+                    </button>
+                  </div>
+                )}
+                {renderChangeSubsection('added', heroChanges.added)}
+                {renderChangeSubsection('removed', heroChanges.removed)}
+                {renderChangeSubsection('changed', heroChanges.changed, true)}
               </div>
             )}
 
@@ -402,9 +411,9 @@ export function DiffSummaryPanel({ diffResult, specData, treeWidth, onHighlightN
             {specTotal > 0 && (
               <div className="diff-tree-column diff-tree-spec">
                 <h4>Spec Talents ({specTotal})</h4>
-                {renderChangeSubsection('added', groupedAdded.spec)}
-                {renderChangeSubsection('removed', groupedRemoved.spec)}
-                {renderChangeSubsection('changed', groupedChanged.spec, true)}
+                {renderChangeSubsection('added', grouped.spec.added)}
+                {renderChangeSubsection('removed', grouped.spec.removed)}
+                {renderChangeSubsection('changed', grouped.spec.changed, true)}
               </div>
             )}
           </div>
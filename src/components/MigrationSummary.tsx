@@ -0,0 +1,53 @@
+import { useState } from 'react'
+import type { MigrationResult, MigratedTalent } from '../lib/buildMigration'
+import './MigrationSummary.css'
+
+interface MigrationSummaryProps {
+  label: string
+  fromSnapshot: string
+  toSnapshot: string
+  migration: MigrationResult
+}
+
+export function MigrationSummary({ label, fromSnapshot, toSnapshot, migration }: MigrationSummaryProps) {
+  const [copied, setCopied] = useState(false)
+  const { carried, moved, removed, talentString } = migration
+
+  const handleCopy = () => {
+    navigator.clipboard?.writeText(talentString).then(() => {
+      setCopied(true)
+      setTimeout(() => setCopied(false), 1500)
+    })
+  }
+
+  const renderTalentList = (title: string, talents: MigratedTalent[], className: string) => {
+    if (talents.length === 0) return null
+    return (
+      <div className={`migration-summary-list ${className}`}>
+        <h5>{title} ({talents.length})</h5>
+        <ul>
+          {talents.map(talent => (
+            <li key={`${talent.fromNodeId}-${talent.definitionId}`}>{talent.name}</li>
+          ))}
+        </ul>
+      </div>
+    )
+  }
+
+  return (
+    <div className="migration-summary">
+      <p className="migration-summary-text">
+        {label} was migrated from patch {fromSnapshot} to {toSnapshot}:
+        {' '}{carried.length} talents carried over, {moved.length} moved, {removed.length} removed.
+      </p>
+      <div className="migration-summary-lists">
+        {renderTalentList('Moved', moved, 'migration-summary-moved')}
+        {renderTalentList('Removed', removed, 'migration-summary-removed')}
+      </div>
+      <div className="migration-summary-string">
+        <input type="text" value={talentString} readOnly onFocus={(e) => e.target.select()} />
+        <button onClick={handleCopy}>{copied ? 'Copied' : 'Copy'}</button>
+      </div>
+    </div>
+  )
+}
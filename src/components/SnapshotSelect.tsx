@@ -0,0 +1,37 @@
+import { useSnapshots } from '../hooks/useSpecData'
+import type { DataSnapshot } from '../data/types'
+
+interface SnapshotSelectProps {
+  label: string // Builds the patch applies to, e.g. "Build A"
+  value: string
+  onChange: (snapshot: string) => void
+}
+
+// "12.0.1.65337", or "12.0.5.66000 (ptr, partial)" for a PTR snapshot missing some specs
+function formatSnapshot(snapshot: DataSnapshot): string {
+  const notes = [
+    ...(snapshot.branch !== 'live' ? [snapshot.branch] : []),
+    ...(!snapshot.complete ? ['partial'] : []),
+  ]
+  return notes.length > 0 ? `${snapshot.gameBuild} (${notes.join(', ')})` : snapshot.gameBuild
+}
+
+export function SnapshotSelect({ label, value, onChange }: SnapshotSelectProps) {
+  const snapshots = useSnapshots()
+
+  return (
+    <select
+      className="compare-view-snapshot"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      aria-label={`${label} patch`}
+      title={`Patch for ${label}`}
+    >
+      {snapshots.map(snapshot => (
+        <option key={snapshot.gameBuild} value={snapshot.gameBuild}>
+          {formatSnapshot(snapshot)}
+        </option>
+      ))}
+    </select>
+  )
+}
@@ -1,8 +1,11 @@
-import { useEffect, useMemo, useRef } from 'react'
+import { useEffect, useMemo, useRef, type CSSProperties } from 'react'
 import type { SpecTalentData, TalentNodeData } from '../data/types'
-import type { TalentNodeSelection } from '../lib/talentParser'
+import { isGrantedNode, type TalentNodeSelection } from '../lib/talentParser'
 import type { TalentDiffResult, TalentDiffNode } from '../lib/talentDiff'
 import { deduplicateOverlappingNodes } from '../lib/nodeFiltering'
+import { getGateStatuses } from '../lib/talentGates'
+import { getSelectedHeroTree } from '../lib/heroTreeDetection'
+import { getNodeSections } from '../lib/treeSections'
 import './TalentTreeView.css'
 
 // Declare Wowhead's global refresh function
@@ -21,13 +24,22 @@ interface TalentTreeViewProps {
   comparisonNodes?: TalentNodeSelection[] // Build A's nodes for comparison mode
   onDimensionsChange?: (width: number) => void
   highlightedNodeIndex?: number | null
+  coverage?: Map<number, number> // Node index -> number of builds taking it, for multi-build views
+  coverageTotal?: number // Number of builds the coverage counts are out of
+  visibleNodeIds?: Set<number> // Limit the tree to these nodes, e.g. the shared class tree
 }
 
 function getSpellIds(node: TalentNodeData): number[] {
   return node.entries.map(e => e.spellId).filter(id => id > 0)
 }
 
-export function TalentTreeView({ specData, selectedNodes, diffResult, comparisonNodes, onDimensionsChange, highlightedNodeIndex }: TalentTreeViewProps) {
+// Colour a node by the share of builds taking it, from red (few) to green (all)
+function getCoverageColor(count: number, total: number): string {
+  const share = total > 0 ? count / total : 0
+  return `hsl(${Math.round(share * 120)}, 70%, 50%)`
+}
+
+export function TalentTreeView({ specData, selectedNodes, diffResult, comparisonNodes, onDimensionsChange, highlightedNodeIndex, coverage, coverageTotal = 0, visibleNodeIds: shownNodeIds }: TalentTreeViewProps) {
   const containerRef = useRef<HTMLDivElement>(null)
 
   // Create diff lookup map for O(1) access by node index
@@ -47,15 +59,14 @@ export function TalentTreeView({ specData, selectedNodes, diffResult, comparison
     )
   }, [selectedNodes])
 
-  // Create a set of comparison node indices for quick lookup (Build A in comparison mode)
-  const comparisonIndices = useMemo(() => {
-    if (!comparisonNodes) return null
+  // Nodes the game grants for free rather than the player buying them
+  const grantedIndices = useMemo(() => {
     return new Set(
-      comparisonNodes
-        .filter(n => n.isSelected)
+      selectedNodes
+        .filter(isGrantedNode)
         .map(n => n.nodeIndex)
     )
-  }, [comparisonNodes])
+  }, [selectedNodes])
 
   // Get choice entry for selected choice nodes
   const choiceSelections = useMemo(() => {
@@ -73,112 +84,28 @@ export function TalentTreeView({ specData, selectedNodes, diffResult, comparison
   const HERO_NODE_SIZE = 46
   const MIN_NODE_SPACING = 78 // Minimum pixels between node centers
 
+  // Class, spec or hero section of every node
+  const sections = useMemo(() => getNodeSections(specData), [specData])
+
   // Filter hero nodes and detect if comparison mode has different hero trees
   const { visibleNodes, visibleEdges, selectedHeroNodeIds, comparisonHeroNodeIds, heroTreesDiffer } = useMemo(() => {
     const allNodes = specData.nodes
     const allEdges = specData.edges
 
-    // Build adjacency map for all nodes
-    const adjacency = new Map<number, Set<number>>()
-    allNodes.forEach(n => adjacency.set(n.id, new Set()))
-    allEdges.forEach(edge => {
-      adjacency.get(edge.fromNodeId)?.add(edge.toNodeId)
-      adjacency.get(edge.toNodeId)?.add(edge.fromNodeId)
-    })
-
-    // Find connected components via BFS
-    const visited = new Set<number>()
-    const components: number[][] = []
-    const nodeIdToComponent = new Map<number, number>()
-
-    for (const node of allNodes) {
-      if (visited.has(node.id)) continue
-
-      const component: number[] = []
-      const queue = [node.id]
-      while (queue.length > 0) {
-        const id = queue.shift()!
-        if (visited.has(id)) continue
-        visited.add(id)
-        component.push(id)
-        adjacency.get(id)?.forEach(n => {
-          if (!visited.has(n)) queue.push(n)
-        })
-      }
-
-      const componentIndex = components.length
-      component.forEach(id => nodeIdToComponent.set(id, componentIndex))
-      components.push(component)
-    }
-
-    // Helper to count selected nodes in a component for a given selection set
-    const countSelectedInComponent = (comp: number[], selectionSet: Set<number>) => {
-      let count = 0
-      comp.forEach(id => {
-        const node = allNodes.find(n => n.id === id)
-        if (!node) return
-        // Skip nodes restricted to other specs
-        if (node.allowedSpecs && node.allowedSpecs.length > 0 && !node.allowedSpecs.includes(specData.specId)) {
-          return
-        }
-        const nodeIndex = allNodes.findIndex(n => n.id === id)
-        if (selectionSet.has(nodeIndex)) {
-          count++
-        }
-      })
-      return count
-    }
-
-    // Identify hero tree components by their size
-    // Hero trees are small disconnected components (10-25 nodes) separate from main class/spec trees
-    const heroTreeComponents = components
-      .map((comp, idx) => ({ index: idx, size: comp.length }))
-      .filter(c => c.size >= 10 && c.size <= 25)
-      .map(c => c.index)
-
-    // Find the hero tree component with the MOST selected nodes (Build B)
-    let selectedHeroComponent: number | null = null
-    let maxSelectedCount = 0
-    for (const compIdx of heroTreeComponents) {
-      const selectedCount = countSelectedInComponent(components[compIdx], selectedIndices)
-      if (selectedCount > maxSelectedCount) {
-        maxSelectedCount = selectedCount
-        selectedHeroComponent = compIdx
-      }
-    }
-
-    // Find the hero tree component for Build A (comparison) if provided
-    let comparisonHeroComponent: number | null = null
-    if (comparisonIndices) {
-      let maxComparisonCount = 0
-      for (const compIdx of heroTreeComponents) {
-        const selectedCount = countSelectedInComponent(components[compIdx], comparisonIndices)
-        if (selectedCount > maxComparisonCount) {
-          maxComparisonCount = selectedCount
-          comparisonHeroComponent = compIdx
-        }
-      }
-    }
+    // The hero tree each build has points in (Build B, and Build A when comparing)
+    const selectedHeroTree = getSelectedHeroTree(specData, selectedNodes)
+    const comparisonHeroTree = comparisonNodes ? getSelectedHeroTree(specData, comparisonNodes) : null
 
     // Determine if hero trees differ between builds
-    const heroTreesDiffer = comparisonIndices !== null &&
-      comparisonHeroComponent !== null &&
-      selectedHeroComponent !== null &&
-      comparisonHeroComponent !== selectedHeroComponent
-
-    // Determine which nodes to hide (unselected hero tree nodes)
-    const heroTreeNodeIds = new Set<number>()
-    heroTreeComponents.forEach(idx => {
-      components[idx].forEach(id => heroTreeNodeIds.add(id))
-    })
+    const heroTreesDiffer = comparisonHeroTree !== null &&
+      selectedHeroTree !== null &&
+      comparisonHeroTree.id !== selectedHeroTree.id
 
-    const selectedHeroNodeIds = selectedHeroComponent !== null
-      ? new Set(components[selectedHeroComponent])
-      : new Set<number>()
+    // Every hero tree node, so the ones outside the selected hero tree(s) can be hidden
+    const heroTreeNodeIds = new Set(allNodes.filter(node => sections.get(node.id) === 'hero').map(node => node.id))
 
-    const comparisonHeroNodeIds = comparisonHeroComponent !== null
-      ? new Set(components[comparisonHeroComponent])
-      : new Set<number>()
+    const selectedHeroNodeIds = new Set(selectedHeroTree?.nodeIds)
+    const comparisonHeroNodeIds = new Set(comparisonHeroTree?.nodeIds)
 
     // Build set of node IDs that have at least one edge
     const connectedNodeIds = new Set<number>()
@@ -193,6 +120,9 @@ export function TalentTreeView({ specData, selectedNodes, diffResult, comparison
       // Always hide the hero selector nodes (type=3)
       if (node.type === 3) return false
 
+      // Hide nodes outside the requested part of the tree
+      if (shownNodeIds && !shownNodeIds.has(node.id)) return false
+
       // Hide disconnected nodes (no edges)
       if (!connectedNodeIds.has(node.id)) return false
 
@@ -232,7 +162,7 @@ export function TalentTreeView({ specData, selectedNodes, diffResult, comparison
     )
 
     return { visibleNodes, visibleNodeIds, visibleEdges, selectedHeroNodeIds, comparisonHeroNodeIds, heroTreesDiffer }
-  }, [specData, selectedIndices, comparisonIndices])
+  }, [specData, sections, selectedNodes, comparisonNodes, shownNodeIds])
 
   // Calculate bounds, scale, and X offsets to normalize spacing between tree sections
   const { bounds, scale, xOffsets, secondHeroYOffset, secondHeroXOffset } = useMemo(() => {
@@ -256,32 +186,16 @@ export function TalentTreeView({ specData, selectedNodes, diffResult, comparison
 
     // Group nodes into columns (class tree, hero tree, spec tree)
     // Hero tree nodes are always in the middle column (1), regardless of their X position
-    // Non-hero nodes are split into class tree (left/0) and spec tree (right/2) by X position
-
-    // Find the X midpoint of non-hero nodes to separate class and spec trees
-    const nonHeroNodes = visibleNodes.filter(n => !selectedHeroNodeIds.has(n.id) && !comparisonHeroNodeIds.has(n.id))
-    const nonHeroXPositions = [...new Set(nonHeroNodes.map(n => n.posX))].sort((a, b) => a - b)
-
-    // Find the largest gap in non-hero X positions to separate class from spec tree
-    let clasSpecSeparator = 0
-    let maxGap = 0
-    for (let i = 1; i < nonHeroXPositions.length; i++) {
-      const gap = nonHeroXPositions[i] - nonHeroXPositions[i - 1]
-      if (gap > maxGap) {
-        maxGap = gap
-        clasSpecSeparator = (nonHeroXPositions[i] + nonHeroXPositions[i - 1]) / 2
-      }
-    }
 
     // Check if node is a hero tree node (either selected hero or comparison hero)
     const isHeroNode = (nodeId: number) => selectedHeroNodeIds.has(nodeId) || comparisonHeroNodeIds.has(nodeId)
 
     // Assign each node to a column
-    const getColumn = (nodeId: number, x: number) => {
+    const getColumn = (nodeId: number) => {
       // Hero tree nodes always go in the middle column
       if (isHeroNode(nodeId)) return 1
-      // Non-hero nodes: left of separator = class tree, right = spec tree
-      return x < clasSpecSeparator ? 0 : 2
+      // Non-hero nodes: class tree on the left, spec tree on the right
+      return sections.get(nodeId) === 'spec' ? 2 : 0
     }
 
     // Calculate X and Y offsets for second hero tree (Build B's hero tree goes below Build A's)
@@ -328,7 +242,7 @@ export function TalentTreeView({ specData, selectedNodes, diffResult, comparison
 
     let minY = Infinity, maxY = -Infinity
     for (const node of visibleNodes) {
-      const col = getColumn(node.id, node.posX)
+      const col = getColumn(node.id)
 
       // Account for X offset when calculating bounds for second hero tree
       let nodeX = node.posX
@@ -385,13 +299,13 @@ export function TalentTreeView({ specData, selectedNodes, diffResult, comparison
       secondHeroYOffset: calculatedSecondHeroYOffset,
       secondHeroXOffset: calculatedSecondHeroXOffset,
     }
-  }, [visibleNodes, visibleEdges, selectedHeroNodeIds, comparisonHeroNodeIds, heroTreesDiffer])
+  }, [visibleNodes, visibleEdges, sections, selectedHeroNodeIds, comparisonHeroNodeIds, heroTreesDiffer])
 
   // Create node ID to position mapping for edge rendering
   const nodePositions = useMemo(() => {
     const map = new Map<number, { x: number; y: number }>()
     visibleNodes.forEach((node) => {
-      const col = xOffsets.getColumn(node.id, node.posX)
+      const col = xOffsets.getColumn(node.id)
       const colXOffset = xOffsets.offsets.get(col) || 0
       // Apply X and Y offsets for second hero tree (Build B's hero tree)
       const isSecondHero = heroTreesDiffer && selectedHeroNodeIds.has(node.id)
@@ -405,6 +319,27 @@ export function TalentTreeView({ specData, selectedNodes, diffResult, comparison
     return map
   }, [visibleNodes, bounds, scale, xOffsets, heroTreesDiffer, selectedHeroNodeIds, secondHeroYOffset, secondHeroXOffset])
 
+  // Point gates: a line across the top of the nodes each gate locks, labelled with the
+  // points the shown build has spent toward it
+  const gateLines = useMemo(() => {
+    return getGateStatuses(selectedNodes, specData).flatMap(({ gate, spent, isMet }) => {
+      const positions = gate.nodeIds
+        .map(nodeId => nodePositions.get(nodeId))
+        .filter((position): position is { x: number; y: number } => !!position)
+      if (positions.length === 0) return []
+
+      const xs = positions.map(position => position.x)
+      return [{
+        id: gate.id,
+        x1: Math.min(...xs) - MIN_NODE_SPACING / 2,
+        x2: Math.max(...xs) + MIN_NODE_SPACING / 2,
+        y: Math.min(...positions.map(position => position.y)) - MIN_NODE_SPACING / 2,
+        label: `${Math.min(spent, gate.requiredPoints)} / ${gate.requiredPoints}`,
+        isMet,
+      }]
+    })
+  }, [selectedNodes, specData, nodePositions])
+
   // Create a map from node ID to original index for selection lookups
   const nodeIdToOriginalIndex = useMemo(() => {
     const map = new Map<number, number>()
@@ -462,13 +397,22 @@ export function TalentTreeView({ specData, selectedNodes, diffResult, comparison
               )
             })}
           </g>
+
+          <g className="gates">
+            {gateLines.map(gate => (
+              <g key={gate.id} className={`gate ${gate.isMet ? 'met' : ''}`}>
+                <line x1={gate.x1} y1={gate.y} x2={gate.x2} y2={gate.y} className="gate-line" />
+                <text x={gate.x1} y={gate.y - 4} className="gate-label">{gate.label}</text>
+              </g>
+            ))}
+          </g>
         </svg>
 
         {/* HTML overlay with Wowhead icons */}
         <div className="talent-overlay">
           {visibleNodes.map((node) => {
             const originalIndex = nodeIdToOriginalIndex.get(node.id) ?? -1
-            const col = xOffsets.getColumn(node.id, node.posX)
+            const col = xOffsets.getColumn(node.id)
             const colXOffset = xOffsets.offsets.get(col) || 0
             const isSecondHero = heroTreesDiffer && selectedHeroNodeIds.has(node.id)
             const heroXOffset = isSecondHero ? secondHeroXOffset : 0
@@ -476,6 +420,7 @@ export function TalentTreeView({ specData, selectedNodes, diffResult, comparison
             const x = (node.posX + colXOffset + heroXOffset - bounds.minX) * scale
             const y = (node.posY + heroYOffset - bounds.minY) * scale
             const isSelected = selectedIndices.has(originalIndex)
+            const isGranted = grantedIndices.has(originalIndex)
             const isChoice = node.entries.length > 1
             const isHeroNode = selectedHeroNodeIds.has(node.id) || comparisonHeroNodeIds.has(node.id)
             const size = isHeroNode ? HERO_NODE_SIZE : NODE_SIZE
@@ -496,17 +441,20 @@ export function TalentTreeView({ specData, selectedNodes, diffResult, comparison
             // In comparison mode, selected talents with no diff are "same" (both specs have it)
             const comparisonSameClass = diffMap && isSelected && !diff ? 'comparison-same' : ''
             const highlightClass = highlightedNodeIndex === originalIndex ? 'highlighted' : ''
+            const coverageCount = coverage?.get(originalIndex) ?? 0
+            const coverageClass = coverageCount > 0 ? 'coverage' : ''
 
             return (
               <a
                 key={`${node.id}-${displaySpellId}`}
                 href={`https://www.wowhead.com/spell=${displaySpellId}`}
-                className={`talent-node ${isSelected ? 'selected' : 'unselected'} ${isChoice ? 'choice' : ''} ${isHeroNode ? 'hero' : ''} ${diffClass} ${comparisonSameClass} ${highlightClass}`}
+                className={`talent-node ${isSelected ? 'selected' : 'unselected'} ${isGranted ? 'granted' : ''} ${isChoice ? 'choice' : ''} ${isHeroNode ? 'hero' : ''} ${diffClass} ${comparisonSameClass} ${coverageClass} ${highlightClass}`}
                 style={{
                   left: x - size / 2,
                   top: y - size / 2,
                   width: size,
                   height: size,
+                  ...(coverageCount > 0 ? { '--coverage-color': getCoverageColor(coverageCount, coverageTotal) } as CSSProperties : {}),
                 }}
                 target="_blank"
                 rel="noopener noreferrer"
@@ -516,12 +464,41 @@ export function TalentTreeView({ specData, selectedNodes, diffResult, comparison
           })}
         </div>
 
+        {/* Build counts in multi-build views */}
+        {coverage && (
+          <div className="talent-ranks">
+            {visibleNodes.map((node) => {
+              const originalIndex = nodeIdToOriginalIndex.get(node.id) ?? -1
+              const count = coverage.get(originalIndex)
+              const position = nodePositions.get(node.id)
+              if (!count || !position) return null
+              const isHeroNode = selectedHeroNodeIds.has(node.id) || comparisonHeroNodeIds.has(node.id)
+              const size = isHeroNode ? HERO_NODE_SIZE : NODE_SIZE
+
+              return (
+                <span
+                  key={node.id}
+                  className="coverage-count"
+                  style={{
+                    left: position.x + size / 2 - 4,
+                    top: position.y - size / 2 - 4,
+                    backgroundColor: getCoverageColor(count, coverageTotal),
+                  }}
+                  title={`${count} of ${coverageTotal} builds`}
+                >
+                  {count}
+                </span>
+              )
+            })}
+          </div>
+        )}
+
         {/* Rank indicators */}
         <div className="talent-ranks">
           {visibleNodes.map((node) => {
             if (node.maxRanks <= 1) return null
             const originalIndex = nodeIdToOriginalIndex.get(node.id) ?? -1
-            const col = xOffsets.getColumn(node.id, node.posX)
+            const col = xOffsets.getColumn(node.id)
             const colXOffset = xOffsets.offsets.get(col) || 0
             const isSecondHero = heroTreesDiffer && selectedHeroNodeIds.has(node.id)
             const heroXOffset = isSecondHero ? secondHeroXOffset : 0
@@ -531,13 +508,15 @@ export function TalentTreeView({ specData, selectedNodes, diffResult, comparison
             const isHeroNode = selectedHeroNodeIds.has(node.id) || comparisonHeroNodeIds.has(node.id)
             const size = isHeroNode ? HERO_NODE_SIZE : NODE_SIZE
             const isSelected = selectedIndices.has(originalIndex)
+            const isGranted = grantedIndices.has(originalIndex)
             const selection = selectedNodes.find(n => n.nodeIndex === originalIndex)
-            const currentRanks = selection?.isSelected ? (selection.ranksPurchased || node.maxRanks) : 0
+            // Granted nodes come with every rank, whatever the string records as purchased
+            const currentRanks = !selection?.isSelected ? 0 : isGranted ? node.maxRanks : (selection.ranksPurchased || node.maxRanks)
 
             return (
               <span
                 key={node.id}
-                className={`rank-indicator ${isSelected ? 'selected' : ''}`}
+                className={`rank-indicator ${isSelected ? 'selected' : ''} ${isGranted ? 'granted' : ''}`}
                 style={{
                   left: x,
                   top: y + size / 2 + 4,
@@ -1,3 +1,9 @@
+export interface DataSnapshot {
+  gameBuild: string // Game build the snapshot was generated from, e.g. "12.0.1.65337"
+  branch: string // Game branch, e.g. "live" or "ptr"
+  complete: boolean // Has every spec; partial generator runs only write some
+}
+
 export interface SpecIndex {
   specId: number
   specName: string
@@ -10,9 +16,20 @@ export interface SpecTalentData {
   specName: string
   className: string
   treeId: number
+  gameBuild?: string // Game build the data was generated from, e.g. "12.0.1.65337"
+  fingerprint?: string // Hash of the node layout, changes whenever nodes are added, removed or reordered
   nodes: TalentNodeData[]
   edges: TalentEdgeData[]
   heroTrees?: HeroTreeData[]
+  gates?: TalentGateData[] // Point gates that lock tree rows; missing in snapshots generated before gates were extracted
+  pointLimits?: Partial<Record<TreeSection, number>> // Points available in each section, from the game's currency sources
+}
+
+export interface TalentGateData {
+  id: number
+  currencyId: number // Currency whose spent points count toward the gate
+  requiredPoints: number // Points to spend in that currency before the gated nodes unlock
+  nodeIds: number[] // Nodes locked by the gate
 }
 
 export interface HeroTreeData {
@@ -21,14 +38,18 @@ export interface HeroTreeData {
   nodeIds: number[]
 }
 
+export type TreeSection = 'class' | 'spec' | 'hero'
+
 export interface TalentNodeData {
   id: number
   posX: number
   posY: number
   type: number
   maxRanks: number
+  section?: TreeSection // Part of the tree the node is in; missing in snapshots generated before sections were baked in
   entries: TalentEntryData[]
   allowedSpecs?: number[] // Specs that can use this node (empty/undefined = all specs)
+  currencyId?: number // Currency the node's ranks cost (undefined = free)
 }
 
 export interface TalentEntryData {
@@ -39,6 +60,7 @@ export interface TalentEntryData {
   iconId: number
   maxRanks: number
   entryIndex: number
+  heroTreeId?: number // Hero tree a selector entry picks; missing in snapshots generated before it was recorded
 }
 
 export interface TalentEdgeData {
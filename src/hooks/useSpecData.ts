@@ -1,14 +1,27 @@
 import { useState, useEffect } from 'react'
-import type { SpecTalentData, SpecIndex } from '../data/types'
+import type { SpecTalentData, SpecIndex, DataSnapshot } from '../data/types'
+import { getDefaultSnapshot } from '../lib/dataSnapshots'
 
-// Import index statically
-import specIndex from '../data/specs/index.json'
+// Import snapshot list and spec indexes statically
+import snapshots from '../data/specs/snapshots.json'
 
-export function useSpecIndex(): SpecIndex[] {
-  return specIndex as SpecIndex[]
+const specIndexes = import.meta.glob<SpecIndex[]>('../data/specs/*/index.json', {
+  eager: true,
+  import: 'default',
+})
+
+// Snapshots are listed newest first; the newest complete live one is used unless another is chosen
+export const DEFAULT_SNAPSHOT = getDefaultSnapshot(snapshots as DataSnapshot[])
+
+export function useSnapshots(): DataSnapshot[] {
+  return snapshots as DataSnapshot[]
+}
+
+export function useSpecIndex(snapshot: string = DEFAULT_SNAPSHOT): SpecIndex[] {
+  return specIndexes[`../data/specs/${snapshot}/index.json`] ?? []
 }
 
-export function useSpecData(specId: number | null): {
+export function useSpecData(specId: number | null, snapshot: string = DEFAULT_SNAPSHOT): {
   data: SpecTalentData | null
   loading: boolean
   error: string | null
@@ -26,8 +39,8 @@ export function useSpecData(specId: number | null): {
     setLoading(true)
     setError(null)
 
-    // Dynamic import of spec data
-    import(`../data/specs/${specId}.json`)
+    // Dynamic import of spec data from the chosen snapshot
+    import(`../data/specs/${snapshot}/${specId}.json`)
       .then((module) => {
         setData(module.default as SpecTalentData)
         setLoading(false)
@@ -36,7 +49,7 @@ export function useSpecData(specId: number | null): {
         setError(`Failed to load spec data: ${err.message}`)
         setLoading(false)
       })
-  }, [specId])
+  }, [specId, snapshot])
 
   return { data, loading, error }
 }
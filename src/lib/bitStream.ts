@@ -0,0 +1,81 @@
+import { TalentStringError } from './talentStringErrors'
+
+/**
+ * Bit-level reader and writer for talent strings.
+ * Bits are packed least-significant first within each byte.
+ */
+
+export class BitReader {
+  private data: Uint8Array
+  private bitLength: number
+  private bitPosition: number = 0
+
+  constructor(data: Uint8Array, bitLength: number = data.length * 8) {
+    this.data = data
+    this.bitLength = bitLength
+  }
+
+  readBits(numBits: number): number {
+    let result = 0
+    for (let i = 0; i < numBits; i++) {
+      const byteIndex = Math.floor(this.bitPosition / 8)
+      const bitIndex = this.bitPosition % 8
+
+      if (this.bitPosition >= this.bitLength) {
+        throw new TalentStringError('Unexpected end of talent string', { bitOffset: this.bitPosition })
+      }
+
+      const bit = (this.data[byteIndex] >> bitIndex) & 1
+      result |= bit << i
+      this.bitPosition++
+    }
+    return result
+  }
+
+  readBit(): boolean {
+    return this.readBits(1) === 1
+  }
+
+  get bitsRemaining(): number {
+    return this.bitLength - this.bitPosition
+  }
+
+  get currentPosition(): number {
+    return this.bitPosition
+  }
+}
+
+export class BitWriter {
+  private data: number[] = []
+  private bitPosition: number = 0
+
+  writeBits(value: number, numBits: number): void {
+    if (!Number.isInteger(value) || value < 0 || value >= 2 ** numBits) {
+      throw new Error(`Value ${value} does not fit in ${numBits} bits`)
+    }
+
+    for (let i = 0; i < numBits; i++) {
+      const byteIndex = Math.floor(this.bitPosition / 8)
+      const bitIndex = this.bitPosition % 8
+
+      if (byteIndex >= this.data.length) {
+        this.data.push(0)
+      }
+
+      this.data[byteIndex] |= ((value >> i) & 1) << bitIndex
+      this.bitPosition++
+    }
+  }
+
+  writeBit(bit: boolean): void {
+    this.writeBits(bit ? 1 : 0, 1)
+  }
+
+  get bitLength(): number {
+    return this.bitPosition
+  }
+
+  toBytes(): Uint8Array {
+    return Uint8Array.from(this.data)
+  }
+}
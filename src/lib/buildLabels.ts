@@ -0,0 +1,10 @@
+// Builds are lettered A, B, C... in the inputs, the views and the URL
+export const MAX_BUILDS = 8
+
+export function getBuildLetter(index: number): string {
+  return String.fromCharCode(65 + index)
+}
+
+export function getBuildLabel(index: number): string {
+  return `Build ${getBuildLetter(index)}`
+}
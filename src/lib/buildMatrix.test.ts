@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest'
+import { createBuildMatrix } from './buildMatrix'
+import { createBuild, createNode, createSelection, createSpecData, taken } from '../test/fixtures'
+
+const specData = createSpecData([
+  createNode(10, { posX: 1000, posY: 100, names: ['Ranked Talent'], maxRanks: 2 }),
+  createNode(20, { posX: 1000, posY: 100, names: ['Option A', 'Option B'] }),
+  createNode(30, { posX: 1000, posY: 100, names: ['Shared Talent'] }),
+  createNode(40, { posX: 1000, posY: 100, names: ['Unused Talent'] }),
+])
+
+const choice = (nodeIndex: number, choiceEntryIndex: number) => taken(nodeIndex, { isChoiceNode: true, choiceEntryIndex })
+const none = (nodeIndex: number) => createSelection(nodeIndex, false)
+
+const builds = [
+  createBuild(254, [taken(0), choice(1, 0), taken(2), none(3)]),
+  createBuild(254, [
+    taken(0, { isPartiallyRanked: true, ranksPurchased: 1 }),
+    choice(1, 1),
+    taken(2),
+    none(3),
+  ]),
+  createBuild(254, [none(0), choice(1, 0), taken(2), none(3)]),
+]
+
+describe('createBuildMatrix', () => {
+  it('should have a row for each node taken by any build', () => {
+    const matrix = createBuildMatrix(builds, specData)
+
+    expect(matrix.buildCount).toBe(3)
+    expect(matrix.rows.map(row => row.nodeId)).toEqual([10, 20, 30])
+  })
+
+  it('should record rank and choice per build', () => {
+    const [ranked, choiceRow] = createBuildMatrix(builds, specData).rows
+
+    expect(ranked.cells).toEqual([
+      { ranks: 2, maxRanks: 2, isGranted: false },
+      { ranks: 1, maxRanks: 2, isGranted: false },
+      null,
+    ])
+    expect(choiceRow.cells.map(cell => cell?.choiceEntryIndex)).toEqual([0, 1, 0])
+  })
+
+  it('should count builds per node', () => {
+    const matrix = createBuildMatrix(builds, specData)
+
+    expect(matrix.rows.map(row => row.count)).toEqual([2, 3, 3])
+    expect(matrix.coverage.get(2)).toBe(3)
+    expect(matrix.coverage.has(3)).toBe(false)
+  })
+
+  it('should mark rows where every build agrees', () => {
+    const matrix = createBuildMatrix(builds, specData)
+    expect(matrix.rows.map(row => row.isUniform)).toEqual([false, false, true])
+  })
+
+  it('should mark granted nodes', () => {
+    const matrix = createBuildMatrix([createBuild(254, [{ nodeIndex: 0, isSelected: true, isPurchased: false }])], specData)
+    expect(matrix.rows[0].cells[0]?.isGranted).toBe(true)
+  })
+
+  it('should reject builds of another spec', () => {
+    expect(() => createBuildMatrix([builds[0], createBuild(253, [])], specData)).toThrow(/Cannot compare different specs/)
+  })
+})
@@ -0,0 +1,77 @@
+import type { SpecTalentData } from '../data/types'
+import type { ParsedTalentData } from './talentParser'
+
+export interface BuildMatrixCell {
+  ranks: number
+  maxRanks: number
+  choiceEntryIndex?: number // Only set for choice nodes
+  isGranted: boolean // Selected for free rather than purchased
+}
+
+export interface BuildMatrixRow {
+  nodeIndex: number
+  nodeId: number
+  cells: (BuildMatrixCell | null)[] // One per build, null where the build doesn't take the node
+  count: number // Number of builds that take the node
+  isUniform: boolean // Every build takes the node with the same ranks and choice
+}
+
+export interface BuildMatrix {
+  specId: number
+  buildCount: number
+  rows: BuildMatrixRow[] // Nodes taken by at least one build, in tree order
+  coverage: Map<number, number> // Node index -> number of builds that take it
+}
+
+/**
+ * Compare any number of builds of the same spec node by node.
+ * Each row shows which builds take a node, at which rank and with which choice.
+ */
+export function createBuildMatrix(builds: ParsedTalentData[], specData: SpecTalentData): BuildMatrix {
+  const mismatch = builds.find(build => build.specId !== specData.specId)
+  if (mismatch) {
+    throw new Error(
+      `Cannot compare different specs: ${specData.specName} ${specData.className} vs ${mismatch.specName || mismatch.specId}`
+    )
+  }
+
+  const rows: BuildMatrixRow[] = []
+  const coverage = new Map<number, number>()
+
+  specData.nodes.forEach((node, nodeIndex) => {
+    const cells = builds.map((build): BuildMatrixCell | null => {
+      const selection = build.nodes[nodeIndex]
+      if (!selection?.isSelected) return null
+
+      const entry = selection.isChoiceNode ? node.entries[selection.choiceEntryIndex ?? 0] : node.entries[0]
+      const maxRanks = entry?.maxRanks || node.maxRanks
+      return {
+        ranks: selection.isPartiallyRanked ? (selection.ranksPurchased ?? 0) : maxRanks,
+        maxRanks,
+        ...(selection.isChoiceNode ? { choiceEntryIndex: selection.choiceEntryIndex ?? 0 } : {}),
+        isGranted: !selection.isPurchased,
+      }
+    })
+
+    const count = cells.filter(cell => cell !== null).length
+    if (count === 0) return
+
+    const [first] = cells
+    const isUniform = cells.every(cell =>
+      cell !== null &&
+      first !== null &&
+      cell.ranks === first.ranks &&
+      cell.choiceEntryIndex === first.choiceEntryIndex
+    )
+
+    rows.push({ nodeIndex, nodeId: node.id, cells, count, isUniform })
+    coverage.set(nodeIndex, count)
+  })
+
+  return {
+    specId: specData.specId,
+    buildCount: builds.length,
+    rows,
+    coverage,
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest'
+import { migrateBuild } from './buildMigration'
+import { parseTalentString } from './talentParser'
+import type { TalentNodeData } from '../data/types'
+import { createBuild, createNode, createSpecData, taken } from '../test/fixtures'
+
+// Helper to create a node whose entries have the given definition IDs, so a talent can move between nodes
+function nodeWithDefinitions(id: number, definitionIds: number[], maxRanks = 1): TalentNodeData {
+  const node = createNode(id, { names: definitionIds.map(definitionId => `Talent ${definitionId}`), maxRanks })
+  return { ...node, entries: node.entries.map((entry, i) => ({ ...entry, definitionId: definitionIds[i] })) }
+}
+
+describe('migrateBuild', () => {
+  it('should carry talents over to the new index of the same node', () => {
+    const oldData = createSpecData([nodeWithDefinitions(10, [100]), nodeWithDefinitions(20, [200])])
+    const newData = createSpecData([nodeWithDefinitions(10, [100]), nodeWithDefinitions(15, [150]), nodeWithDefinitions(20, [200])])
+    const build = createBuild(254, [taken(0), taken(1)])
+
+    const result = migrateBuild(build, oldData, newData)
+
+    expect(result.carried.map(t => t.toNodeId)).toEqual([10, 20])
+    expect(result.moved).toEqual([])
+    expect(result.removed).toEqual([])
+    expect(result.build.nodes.map(n => n.isSelected)).toEqual([true, false, true])
+  })
+
+  it('should follow a talent that moved to a different node', () => {
+    const oldData = createSpecData([nodeWithDefinitions(10, [100])])
+    const newData = createSpecData([nodeWithDefinitions(30, [100])])
+
+    const result = migrateBuild(createBuild(254, [taken(0)]), oldData, newData)
+
+    expect(result.moved).toEqual([{ name: 'Talent 100', definitionId: 100, fromNodeId: 10, toNodeId: 30 }])
+    expect(result.build.nodes[0].isSelected).toBe(true)
+  })
+
+  it('should report talents that no longer exist', () => {
+    const oldData = createSpecData([nodeWithDefinitions(10, [100]), nodeWithDefinitions(20, [200])])
+    const newData = createSpecData([nodeWithDefinitions(10, [100])])
+
+    const result = migrateBuild(createBuild(254, [taken(0), taken(1)]), oldData, newData)
+
+    expect(result.removed).toEqual([{ name: 'Talent 200', definitionId: 200, fromNodeId: 20 }])
+    expect(result.build.nodes).toHaveLength(1)
+  })
+
+  it('should not keep a node whose talent was replaced', () => {
+    const oldData = createSpecData([nodeWithDefinitions(10, [100])])
+    const newData = createSpecData([nodeWithDefinitions(10, [101])])
+
+    const result = migrateBuild(createBuild(254, [taken(0)]), oldData, newData)
+
+    expect(result.removed.map(t => t.fromNodeId)).toEqual([10])
+    expect(result.build.nodes[0].isSelected).toBe(false)
+  })
+
+  it('should remap choice indices by definition', () => {
+    const oldData = createSpecData([nodeWithDefinitions(10, [100, 101])])
+    const newData = createSpecData([nodeWithDefinitions(10, [102, 101, 100])])
+    const build = createBuild(254, [taken(0, { isChoiceNode: true, choiceEntryIndex: 1 })])
+
+    const result = migrateBuild(build, oldData, newData)
+
+    expect(result.build.nodes[0]).toMatchObject({ isChoiceNode: true, choiceEntryIndex: 1 })
+    expect(result.carried.map(t => t.definitionId)).toEqual([101])
+  })
+
+  it('should cap ranks at the new maximum', () => {
+    const oldData = createSpecData([nodeWithDefinitions(10, [100], 3)])
+    const newData = createSpecData([nodeWithDefinitions(10, [100], 2)])
+    const build = createBuild(254, [taken(0)])
+
+    const result = migrateBuild(build, oldData, newData)
+
+    expect(result.build.nodes[0]).toMatchObject({ isPartiallyRanked: false })
+    expect(result.build.nodes[0].ranksPurchased).toBeUndefined()
+  })
+
+  it('should emit a string for the new tree with an empty tree hash', () => {
+    const oldData = createSpecData([nodeWithDefinitions(10, [100]), nodeWithDefinitions(20, [200, 201])])
+    const newData = createSpecData([nodeWithDefinitions(5, [50]), nodeWithDefinitions(10, [100]), nodeWithDefinitions(20, [201, 200])])
+    const build = { ...createBuild(254, [taken(0), taken(1, { isChoiceNode: true, choiceEntryIndex: 1 })]), treeHash: 'ab'.repeat(16) }
+
+    const result = migrateBuild(build, oldData, newData)
+    const reparsed = parseTalentString(result.talentString)
+
+    expect(reparsed.treeHash).toBe('0'.repeat(32))
+    expect(reparsed.nodes.slice(0, 3)).toEqual(result.build.nodes)
+    expect(reparsed.nodes[2]).toMatchObject({ isSelected: true, choiceEntryIndex: 0 })
+  })
+})
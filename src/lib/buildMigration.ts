@@ -0,0 +1,131 @@
+import type { SpecTalentData, TalentNodeData } from '../data/types'
+import type { ParsedTalentData, TalentNodeSelection } from './talentParser'
+import { serializeTalentString } from './talentParser'
+import { resolveBuild, type ResolvedTalent } from './buildResolver'
+
+export interface MigratedTalent {
+  name: string
+  definitionId: number | null // null when the chosen entry couldn't be determined
+  fromNodeId: number
+  toNodeId?: number // Missing for removed talents
+}
+
+export interface MigrationResult {
+  build: ParsedTalentData
+  talentString: string
+  carried: MigratedTalent[] // Still on the same node
+  moved: MigratedTalent[] // Same talent, now on a different node
+  removed: MigratedTalent[] // No longer in the tree
+}
+
+/**
+ * Migrate a build decoded against one data snapshot onto the tree of another.
+ *
+ * Each selected talent is matched first by node ID, then by its entry's definition ID
+ * anywhere in the new tree, so talents that were moved to another node follow along.
+ * Ranks are capped at the new maximum, and the result is serialized with an empty tree
+ * hash so the game accepts it on the new patch.
+ */
+export function migrateBuild(
+  parsed: ParsedTalentData,
+  fromSpecData: SpecTalentData,
+  toSpecData: SpecTalentData
+): MigrationResult {
+  const resolved = resolveBuild(parsed, fromSpecData)
+
+  // Look up new nodes by ID and by the definitions of their entries
+  const nodeIndexById = new Map<number, number>()
+  const nodeIndexByDefinition = new Map<number, number>()
+  toSpecData.nodes.forEach((node, index) => {
+    nodeIndexById.set(node.id, index)
+    for (const entry of node.entries) {
+      if (!nodeIndexByDefinition.has(entry.definitionId)) {
+        nodeIndexByDefinition.set(entry.definitionId, index)
+      }
+    }
+  })
+
+  const selections = new Map<number, TalentNodeSelection>()
+  const carried: MigratedTalent[] = []
+  const moved: MigratedTalent[] = []
+  const removed: MigratedTalent[] = []
+
+  for (const talent of resolved.talents) {
+    const definitionId = talent.entry?.definitionId ?? null
+    const migrated: MigratedTalent = {
+      name: talent.entry?.name || fromSpecData.nodes[talent.nodeIndex].entries[0]?.name || `Node ${talent.nodeId}`,
+      definitionId,
+      fromNodeId: talent.nodeId,
+    }
+
+    // Prefer the same node if it still offers this talent
+    let targetIndex = nodeIndexById.get(talent.nodeId)
+    if (targetIndex !== undefined && definitionId !== null &&
+        !toSpecData.nodes[targetIndex].entries.some(e => e.definitionId === definitionId)) {
+      targetIndex = undefined
+    }
+    if (targetIndex === undefined && definitionId !== null) {
+      targetIndex = nodeIndexByDefinition.get(definitionId)
+    }
+
+    // Two old talents can't share one new node; the first one keeps it
+    if (targetIndex === undefined || selections.has(targetIndex)) {
+      removed.push(migrated)
+      continue
+    }
+
+    const targetNode = toSpecData.nodes[targetIndex]
+    selections.set(targetIndex, createSelection(talent, targetNode, targetIndex))
+    migrated.toNodeId = targetNode.id
+
+    if (targetNode.id === talent.nodeId) {
+      carried.push(migrated)
+    } else {
+      moved.push(migrated)
+    }
+  }
+
+  const build: ParsedTalentData = {
+    version: parsed.version,
+    specId: parsed.specId,
+    specName: parsed.specName,
+    treeHash: '0'.repeat(32),
+    nodes: toSpecData.nodes.map((_, nodeIndex) =>
+      selections.get(nodeIndex) ?? { nodeIndex, isSelected: false }
+    ),
+    rawBytes: [],
+  }
+
+  return {
+    build,
+    talentString: serializeTalentString(build),
+    carried,
+    moved,
+    removed,
+  }
+}
+
+// Build the selection for a talent on its new node
+function createSelection(talent: ResolvedTalent, node: TalentNodeData, nodeIndex: number): TalentNodeSelection {
+  if (!talent.isPurchased) {
+    return { nodeIndex, isSelected: true, isPurchased: false }
+  }
+
+  const entryIndex = talent.entry
+    ? node.entries.findIndex(e => e.definitionId === talent.entry!.definitionId)
+    : -1
+  const entry = node.entries[Math.max(entryIndex, 0)]
+  const maxRanks = entry?.maxRanks || node.maxRanks
+  const ranks = Math.min(talent.ranks, maxRanks)
+  const isChoiceNode = node.entries.length > 1
+
+  return {
+    nodeIndex,
+    isSelected: true,
+    isPurchased: true,
+    isPartiallyRanked: ranks < maxRanks,
+    ...(ranks < maxRanks ? { ranksPurchased: ranks } : {}),
+    isChoiceNode,
+    ...(isChoiceNode ? { choiceEntryIndex: Math.max(entryIndex, 0) } : {}),
+  }
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import { resolveBuild } from './buildResolver'
+import { createBuild, createNode, createSpecData } from '../test/fixtures'
+
+const specData = createSpecData([
+  createNode(10, { posX: 1000, posY: 100, names: ['Class Talent'], maxRanks: 2 }),
+  createNode(20, { posX: 1600, posY: 100, names: ['Option A', 'Option B'] }),
+  createNode(30, { posX: 9000, posY: 100, names: ['Spec Talent'] }),
+  createNode(40, { posX: 5000, posY: 100, names: ['Hero Talent'] }),
+], {
+  heroTrees: [{ id: 42, name: 'Sentinel', nodeIds: [40] }],
+})
+
+describe('resolveBuild', () => {
+  it('should only include selected nodes, keyed by node ID', () => {
+    const build = createBuild(254, [
+      { nodeIndex: 0, isSelected: true, isPurchased: true },
+      { nodeIndex: 1, isSelected: false },
+      { nodeIndex: 2, isSelected: true, isPurchased: true },
+      { nodeIndex: 3, isSelected: false },
+    ])
+
+    const result = resolveBuild(build, specData)
+
+    expect(result.talents.map(t => t.nodeId)).toEqual([10, 30])
+    expect(result.byNodeId.get(30)?.entry?.name).toBe('Spec Talent')
+    expect(result.byNodeId.has(20)).toBe(false)
+  })
+
+  it('should resolve ranks for fully and partially ranked nodes', () => {
+    const full = resolveBuild(createBuild(254, [
+      { nodeIndex: 0, isSelected: true, isPurchased: true, isPartiallyRanked: false },
+    ]), specData)
+    const partial = resolveBuild(createBuild(254, [
+      { nodeIndex: 0, isSelected: true, isPurchased: true, isPartiallyRanked: true, ranksPurchased: 1 },
+    ]), specData)
+
+    expect(full.byNodeId.get(10)).toMatchObject({ ranks: 2, maxRanks: 2 })
+    expect(partial.byNodeId.get(10)).toMatchObject({ ranks: 1, maxRanks: 2 })
+  })
+
+  it('should resolve the chosen entry of a choice node', () => {
+    const result = resolveBuild(createBuild(254, [
+      { nodeIndex: 0, isSelected: false },
+      { nodeIndex: 1, isSelected: true, isPurchased: true, isChoiceNode: true, choiceEntryIndex: 1 },
+    ]), specData)
+
+    const talent = result.byNodeId.get(20)
+    expect(talent?.isChoiceNode).toBe(true)
+    expect(talent?.entry?.name).toBe('Option B')
+    expect(talent?.entry?.definitionId).toBe(2001)
+  })
+
+  it('should record the section and purchase state of each talent', () => {
+    const result = resolveBuild(createBuild(254, [
+      { nodeIndex: 0, isSelected: true, isPurchased: true },
+      { nodeIndex: 1, isSelected: false },
+      { nodeIndex: 2, isSelected: true, isPurchased: true },
+      { nodeIndex: 3, isSelected: true, isPurchased: false },
+    ]), specData)
+
+    expect(result.byNodeId.get(10)?.section).toBe('class')
+    expect(result.byNodeId.get(30)?.section).toBe('spec')
+    expect(result.byNodeId.get(40)).toMatchObject({ section: 'hero', isPurchased: false })
+  })
+
+  it('should collect selections that have no matching node', () => {
+    const result = resolveBuild(createBuild(254, [
+      { nodeIndex: 0, isSelected: true, isPurchased: true },
+      { nodeIndex: 7, isSelected: true, isPurchased: true },
+    ]), specData)
+
+    expect(result.talents).toHaveLength(1)
+    expect(result.unresolved.map(n => n.nodeIndex)).toEqual([7])
+  })
+})
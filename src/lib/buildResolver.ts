@@ -0,0 +1,74 @@
+import type { SpecTalentData, TalentEntryData } from '../data/types'
+import type { ParsedTalentData, TalentNodeSelection } from './talentParser'
+import { getNodeSections, type TreeSection } from './treeSections'
+
+export interface ResolvedTalent {
+  nodeId: number
+  nodeIndex: number
+  section: TreeSection
+  entry: TalentEntryData | null // Chosen entry, null if it can't be determined
+  ranks: number
+  maxRanks: number
+  isPurchased: boolean // false for nodes granted for free
+  isChoiceNode: boolean
+}
+
+export interface ResolvedBuild {
+  specId: number
+  specName?: string
+  talents: ResolvedTalent[] // Selected talents in tree order
+  byNodeId: Map<number, ResolvedTalent>
+  unresolved: TalentNodeSelection[] // Selections with no matching node in the spec data
+}
+
+/**
+ * Resolve the positional node selections of a parsed build against the spec data.
+ * Only selected nodes are included in the result.
+ */
+export function resolveBuild(parsed: ParsedTalentData, specData: SpecTalentData): ResolvedBuild {
+  const sections = getNodeSections(specData)
+  const talents: ResolvedTalent[] = []
+  const byNodeId = new Map<number, ResolvedTalent>()
+  const unresolved: TalentNodeSelection[] = []
+
+  for (const selection of parsed.nodes) {
+    if (!selection.isSelected) continue
+
+    const node = specData.nodes[selection.nodeIndex]
+    if (!node) {
+      unresolved.push(selection)
+      continue
+    }
+
+    // Choice nodes record which entry was picked; other nodes have a single entry
+    let entry: TalentEntryData | null = null
+    if (selection.isChoiceNode && selection.choiceEntryIndex !== undefined) {
+      entry = node.entries[selection.choiceEntryIndex] ?? null
+    } else if (node.entries.length === 1) {
+      entry = node.entries[0]
+    }
+
+    const maxRanks = entry?.maxRanks || node.maxRanks
+    const talent: ResolvedTalent = {
+      nodeId: node.id,
+      nodeIndex: selection.nodeIndex,
+      section: sections.get(node.id) ?? 'class',
+      entry,
+      ranks: selection.isPartiallyRanked ? (selection.ranksPurchased ?? 0) : maxRanks,
+      maxRanks,
+      isPurchased: selection.isPurchased ?? false,
+      isChoiceNode: node.entries.length > 1,
+    }
+
+    talents.push(talent)
+    byNodeId.set(node.id, talent)
+  }
+
+  return {
+    specId: parsed.specId,
+    specName: parsed.specName,
+    talents,
+    byNodeId,
+    unresolved,
+  }
+}
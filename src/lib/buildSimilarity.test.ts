@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import { getBuildDistance, clusterBuilds, DEFAULT_DISTANCE_WEIGHTS } from './buildSimilarity'
+import { createBuild, createNode, createSpecData, pickNodes, type Pick } from '../test/fixtures'
+
+// Class nodes on the left, spec nodes on the right, one hero node
+const specData = createSpecData([
+  createNode(1, { posX: 1000, posY: 100 }),
+  createNode(2, { posX: 1600, posY: 100, maxRanks: 2 }),
+  createNode(3, { posX: 9000, posY: 100 }),
+  createNode(4, { posX: 9600, posY: 100, names: ['Talent 4a', 'Talent 4b'] }),
+  createNode(5, { posX: 5000, posY: 100 }),
+], {
+  heroTrees: [{ id: 42, name: 'Sentinel', nodeIds: [5] }],
+})
+
+const pickBuild = (picks: Pick[]) => createBuild(254, pickNodes(specData, picks))
+
+describe('getBuildDistance', () => {
+  it('should be zero for identical builds', () => {
+    const build = pickBuild([0, 2, 3])
+    expect(getBuildDistance(build, build, specData)).toBe(0)
+  })
+
+  it('should weight added talents by section', () => {
+    const base = pickBuild([])
+    const { sections } = DEFAULT_DISTANCE_WEIGHTS
+
+    expect(getBuildDistance(base, pickBuild([0]), specData)).toBe(sections.class)
+    expect(getBuildDistance(base, pickBuild([2]), specData)).toBe(sections.spec)
+    expect(getBuildDistance(base, pickBuild([4]), specData)).toBe(sections.hero)
+  })
+
+  it('should count every rank of an added talent', () => {
+    const distance = getBuildDistance(pickBuild([]), pickBuild([1]), specData)
+    expect(distance).toBe(2 * DEFAULT_DISTANCE_WEIGHTS.sections.class)
+  })
+
+  it('should weight rank and choice changes separately', () => {
+    const rankChange = getBuildDistance(
+      pickBuild([{ index: 1, ranks: 1 }]),
+      pickBuild([1]),
+      specData
+    )
+    expect(rankChange).toBe(DEFAULT_DISTANCE_WEIGHTS.rank * DEFAULT_DISTANCE_WEIGHTS.sections.class)
+
+    const choiceChange = getBuildDistance(
+      pickBuild([{ index: 3, choice: 0 }]),
+      pickBuild([{ index: 3, choice: 1 }]),
+      specData
+    )
+    expect(choiceChange).toBe(DEFAULT_DISTANCE_WEIGHTS.choice)
+  })
+
+  it('should accept custom weights', () => {
+    const weights = { ...DEFAULT_DISTANCE_WEIGHTS, sections: { class: 0, spec: 3, hero: 0 } }
+    expect(getBuildDistance(pickBuild([0]), pickBuild([2]), specData, weights)).toBe(3)
+  })
+})
+
+describe('clusterBuilds', () => {
+  // Two archetypes: one takes the spec talent, the other the choice node's second option
+  const builds = [
+    pickBuild([0, 2]),
+    pickBuild([0, 1, 2]),
+    pickBuild([0, 2, 4]),
+    pickBuild([0, { index: 3, choice: 1 }]),
+    pickBuild([1, { index: 3, choice: 1 }]),
+  ]
+
+  it('should group builds within the threshold', () => {
+    const clusters = clusterBuilds(builds, specData, 2.5)
+    expect(clusters.map(c => c.members)).toEqual([[0, 1, 2], [3, 4]])
+  })
+
+  it('should keep every build apart with a zero threshold', () => {
+    const clusters = clusterBuilds(builds, specData, 0)
+    expect(clusters).toHaveLength(builds.length)
+  })
+
+  it('should pick the member closest to the rest as representative', () => {
+    const [first] = clusterBuilds(builds, specData, 2.5)
+    expect(first.representative).toBe(0)
+  })
+
+  it('should list talents that set a cluster apart', () => {
+    const [first, second] = clusterBuilds(builds, specData, 2.5)
+
+    expect(first.distinguishingTalents.map(t => t.name)).toEqual(['Talent 3', 'Talent 4b', 'Talent 1'])
+    expect(first.distinguishingTalents[0]).toMatchObject({ clusterShare: 1, otherShare: 0 })
+    expect(second.distinguishingTalents[1]).toMatchObject({ nodeIndex: 3, choiceEntryIndex: 1 })
+  })
+
+  it('should return a single cluster without distinguishing talents for one build', () => {
+    const clusters = clusterBuilds([builds[0]], specData, 5)
+    expect(clusters).toEqual([{ members: [0], representative: 0, distinguishingTalents: [] }])
+  })
+})
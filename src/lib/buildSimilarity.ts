@@ -0,0 +1,197 @@
+import type { SpecTalentData } from '../data/types'
+import type { ParsedTalentData, TalentNodeSelection } from './talentParser'
+import { diffTalentBuilds } from './talentDiff'
+import { getNodeSections, type TreeSection } from './treeSections'
+
+export interface DistanceWeights {
+  talent: number // A talent taken by only one of the builds, per rank
+  choice: number // Different option picked on the same choice node
+  rank: number // Per rank of difference on a node both builds take
+  sections: Record<TreeSection, number> // Multiplier for changes in each section
+}
+
+// Spec talents define a build the most; a hero tree switch already changes many nodes
+export const DEFAULT_DISTANCE_WEIGHTS: DistanceWeights = {
+  talent: 1,
+  choice: 1,
+  rank: 0.5,
+  sections: { class: 0.75, spec: 1, hero: 0.5 },
+}
+
+export interface DistinguishingTalent {
+  nodeIndex: number
+  choiceEntryIndex?: number // Set for choice nodes
+  name: string
+  clusterShare: number // Fraction of the cluster's builds that take it
+  otherShare: number // Fraction of the remaining builds that take it
+}
+
+export interface BuildCluster {
+  members: number[] // Indices into the input builds
+  representative: number // The member closest to all others
+  distinguishingTalents: DistinguishingTalent[]
+}
+
+// Ranks a selection has, given the node's maximum
+function getRanks(selection: TalentNodeSelection | undefined, maxRanks: number): number {
+  if (!selection?.isSelected) return 0
+  return selection.isPartiallyRanked ? (selection.ranksPurchased ?? 0) : maxRanks
+}
+
+/**
+ * Weighted distance between two builds of the same spec; 0 means identical.
+ * Each differing node adds its weight times its section's multiplier.
+ */
+export function getBuildDistance(
+  buildA: ParsedTalentData,
+  buildB: ParsedTalentData,
+  specData: SpecTalentData,
+  weights: DistanceWeights = DEFAULT_DISTANCE_WEIGHTS,
+  sections: Map<number, TreeSection> = getNodeSections(specData)
+): number {
+  const { diffs } = diffTalentBuilds(buildA, buildB)
+  let distance = 0
+
+  for (const diff of diffs) {
+    const node = specData.nodes[diff.nodeIndex]
+    // Hero tree selector nodes only mirror the hero talents themselves
+    if (!node || node.type === 3 || diff.diffType === 'unchanged') continue
+
+    const sectionWeight = weights.sections[sections.get(node.id) ?? 'class']
+    const ranksA = getRanks(diff.buildA, node.maxRanks)
+    const ranksB = getRanks(diff.buildB, node.maxRanks)
+
+    if (diff.diffType === 'added' || diff.diffType === 'removed') {
+      distance += weights.talent * Math.max(ranksA, ranksB, 1) * sectionWeight
+    } else if (diff.changeDetails?.choiceChange) {
+      distance += weights.choice * sectionWeight
+    } else {
+      distance += weights.rank * Math.abs(ranksA - ranksB) * sectionWeight
+    }
+  }
+
+  return distance
+}
+
+/**
+ * Group builds into archetypes by average-linkage clustering: the two closest
+ * clusters are merged until every remaining pair is further apart than the threshold.
+ */
+export function clusterBuilds(
+  builds: ParsedTalentData[],
+  specData: SpecTalentData,
+  threshold: number,
+  weights: DistanceWeights = DEFAULT_DISTANCE_WEIGHTS
+): BuildCluster[] {
+  const sections = getNodeSections(specData)
+
+  // Pairwise distances between all builds
+  const distances = builds.map(() => new Array<number>(builds.length).fill(0))
+  for (let i = 0; i < builds.length; i++) {
+    for (let j = i + 1; j < builds.length; j++) {
+      const distance = getBuildDistance(builds[i], builds[j], specData, weights, sections)
+      distances[i][j] = distance
+      distances[j][i] = distance
+    }
+  }
+
+  const averageDistance = (a: number[], b: number[]) => {
+    let total = 0
+    for (const i of a) {
+      for (const j of b) total += distances[i][j]
+    }
+    return total / (a.length * b.length)
+  }
+
+  let groups = builds.map((_, i) => [i])
+  while (groups.length > 1) {
+    let closest: [number, number] | null = null
+    let closestDistance = Infinity
+    for (let i = 0; i < groups.length; i++) {
+      for (let j = i + 1; j < groups.length; j++) {
+        const distance = averageDistance(groups[i], groups[j])
+        if (distance < closestDistance) {
+          closestDistance = distance
+          closest = [i, j]
+        }
+      }
+    }
+
+    if (!closest || closestDistance > threshold) break
+    const [i, j] = closest
+    groups = [...groups.filter((_, k) => k !== i && k !== j), [...groups[i], ...groups[j]].sort((a, b) => a - b)]
+  }
+
+  // Largest archetypes first
+  groups.sort((a, b) => b.length - a.length || a[0] - b[0])
+
+  return groups.map(members => {
+    const representative = members.reduce((best, i) =>
+      averageDistance([i], members) < averageDistance([best], members) ? i : best
+    )
+    const others = builds.map((_, i) => i).filter(i => !members.includes(i))
+
+    return {
+      members,
+      representative,
+      distinguishingTalents: findDistinguishingTalents(builds, members, others, specData),
+    }
+  })
+}
+
+// Minimum difference in how often a talent is taken inside and outside a cluster
+const DISTINGUISHING_SHARE = 0.5
+
+/**
+ * Talents (or choice options) taken far more or far less often inside a cluster than
+ * in the remaining builds, most distinguishing first.
+ */
+function findDistinguishingTalents(
+  builds: ParsedTalentData[],
+  members: number[],
+  others: number[],
+  specData: SpecTalentData
+): DistinguishingTalent[] {
+  if (others.length === 0) return []
+
+  // Count builds per talent, keyed by node index and choice
+  const countTalents = (indices: number[]) => {
+    const counts = new Map<string, number>()
+    for (const i of indices) {
+      for (const selection of builds[i].nodes) {
+        if (!selection.isSelected) continue
+        const key = `${selection.nodeIndex}:${selection.isChoiceNode ? selection.choiceEntryIndex ?? 0 : ''}`
+        counts.set(key, (counts.get(key) ?? 0) + 1)
+      }
+    }
+    return counts
+  }
+
+  const clusterCounts = countTalents(members)
+  const otherCounts = countTalents(others)
+  const talents: DistinguishingTalent[] = []
+
+  for (const key of new Set([...clusterCounts.keys(), ...otherCounts.keys()])) {
+    const [nodeIndexText, choiceText] = key.split(':')
+    const nodeIndex = Number(nodeIndexText)
+    const node = specData.nodes[nodeIndex]
+    if (!node || node.type === 3) continue
+
+    const clusterShare = (clusterCounts.get(key) ?? 0) / members.length
+    const otherShare = (otherCounts.get(key) ?? 0) / others.length
+    if (Math.abs(clusterShare - otherShare) < DISTINGUISHING_SHARE) continue
+
+    const choiceEntryIndex = choiceText === '' ? undefined : Number(choiceText)
+    talents.push({
+      nodeIndex,
+      ...(choiceEntryIndex !== undefined ? { choiceEntryIndex } : {}),
+      name: node.entries[choiceEntryIndex ?? 0]?.name || `Node ${node.id}`,
+      clusterShare,
+      otherShare,
+    })
+  }
+
+  return talents.sort((a, b) =>
+    Math.abs(b.clusterShare - b.otherShare) - Math.abs(a.clusterShare - a.otherShare) || a.nodeIndex - b.nodeIndex
+  )
+}
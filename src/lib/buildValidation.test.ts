@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest'
+import { validateBuild } from './buildValidation'
+import { SECTION_POINT_LIMITS } from './pointAccounting'
+import type { SpecTalentData } from '../data/types'
+import { createBuild, createNode, createSpecData, taken } from '../test/fixtures'
+
+// Class tree: 1 -> 2 -> 3, spec tree: 4 (choice), 5 (restricted to another spec)
+const specData = createSpecData([
+  createNode(1, { posX: 1000, posY: 100, maxRanks: 2 }),
+  createNode(2, { posX: 1000, posY: 100 }),
+  createNode(3, { posX: 1600, posY: 100 }),
+  createNode(4, { posX: 9000, posY: 100, names: ['Talent 4-0', 'Talent 4-1'] }),
+  createNode(5, { posX: 9600, posY: 100, allowedSpecs: [253] }),
+], {
+  edges: [
+    { fromNodeId: 1, toNodeId: 2, type: 2 },
+    { fromNodeId: 2, toNodeId: 3, type: 2 },
+  ],
+  heroTrees: [],
+})
+
+describe('validateBuild', () => {
+  it('should accept a legal build', () => {
+    const build = createBuild(254, [
+      taken(0),
+      taken(1),
+      taken(2),
+      taken(3, { isChoiceNode: true, choiceEntryIndex: 1 }),
+      { nodeIndex: 4, isSelected: false },
+    ])
+
+    expect(validateBuild(build, specData)).toEqual([])
+  })
+
+  it('should report nodes selected without their prerequisites', () => {
+    const build = createBuild(254, [
+      { nodeIndex: 0, isSelected: false },
+      { nodeIndex: 1, isSelected: false },
+      taken(2),
+    ])
+
+    const violations = validateBuild(build, specData)
+
+    expect(violations).toHaveLength(1)
+    expect(violations[0]).toMatchObject({ type: 'unreachable', nodeId: 3, section: 'class' })
+  })
+
+  it('should require parents to be fully ranked', () => {
+    const build = createBuild(254, [
+      taken(0, { isPartiallyRanked: true, ranksPurchased: 1 }),
+      taken(1),
+    ])
+
+    const violations = validateBuild(build, specData)
+
+    expect(violations.map(v => v.type)).toEqual(['unreachable'])
+    expect(violations[0].nodeId).toBe(2)
+  })
+
+  it('should not require prerequisites for granted nodes', () => {
+    const build = createBuild(254, [
+      { nodeIndex: 0, isSelected: false },
+      { nodeIndex: 1, isSelected: false },
+      { nodeIndex: 2, isSelected: true, isPurchased: false },
+    ])
+
+    expect(validateBuild(build, specData)).toEqual([])
+  })
+
+  it('should report nodes ranked past their maximum', () => {
+    const build = createBuild(254, [taken(0, { isPartiallyRanked: true, ranksPurchased: 5 })])
+
+    const violations = validateBuild(build, specData)
+
+    expect(violations).toHaveLength(1)
+    expect(violations[0]).toMatchObject({ type: 'rank-exceeded', nodeId: 1 })
+    expect(violations[0].message).toMatch(/5 ranks but its maximum is 2/)
+  })
+
+  it('should report choice indices beyond the available entries', () => {
+    const build = createBuild(254, [
+      { nodeIndex: 0, isSelected: false },
+      { nodeIndex: 1, isSelected: false },
+      { nodeIndex: 2, isSelected: false },
+      taken(3, { isChoiceNode: true, choiceEntryIndex: 3 }),
+    ])
+
+    const violations = validateBuild(build, specData)
+
+    expect(violations).toHaveLength(1)
+    expect(violations[0]).toMatchObject({ type: 'invalid-choice', nodeId: 4, section: 'spec' })
+  })
+
+  it('should report nodes restricted to other specs', () => {
+    const build = createBuild(254, [
+      { nodeIndex: 0, isSelected: false },
+      { nodeIndex: 1, isSelected: false },
+      { nodeIndex: 2, isSelected: false },
+      { nodeIndex: 3, isSelected: false },
+      taken(4),
+    ])
+
+    const violations = validateBuild(build, specData)
+
+    expect(violations).toHaveLength(1)
+    expect(violations[0]).toMatchObject({ type: 'spec-restricted', nodeId: 5 })
+  })
+
+  it('should report selections beyond the end of the tree', () => {
+    const build = createBuild(254, [taken(0), taken(9)])
+
+    const violations = validateBuild(build, specData)
+
+    expect(violations).toHaveLength(1)
+    expect(violations[0]).toMatchObject({ type: 'unknown-node', nodeIndex: 9 })
+  })
+
+  it('should report sections with more points than are available', () => {
+    const ranks = SECTION_POINT_LIMITS.class + 1
+    const overspent: SpecTalentData = {
+      ...specData,
+      nodes: [createNode(1, { posX: 1000, posY: 100, maxRanks: ranks }), createNode(4, { posX: 9000, posY: 100 })],
+      edges: [],
+    }
+    const build = createBuild(254, [taken(0)])
+
+    const violations = validateBuild(build, overspent)
+
+    expect(violations).toHaveLength(1)
+    expect(violations[0]).toMatchObject({ type: 'section-points', section: 'class' })
+  })
+
+  it('should not count the hero tree selector against the hero points', () => {
+    const withHeroTree: SpecTalentData = {
+      ...specData,
+      nodes: [
+        ...specData.nodes,
+        createNode(6, { posX: 5000, posY: 100, maxRanks: SECTION_POINT_LIMITS.hero }),
+        createNode(7, { posX: 5000, posY: 50, names: ['Sentinel', 'Dark Ranger'], type: 3 }),
+      ],
+      heroTrees: [{ id: 42, name: 'Sentinel', nodeIds: [6] }],
+    }
+    const build = createBuild(254, [
+      taken(5),
+      taken(6, { isChoiceNode: true, choiceEntryIndex: 0 }),
+    ])
+
+    expect(validateBuild(build, withHeroTree)).toEqual([])
+  })
+
+  it('should use the point limits recorded in the spec data', () => {
+    const build = createBuild(254, [taken(0), taken(1), taken(2)])
+
+    expect(validateBuild(build, { ...specData, pointLimits: { class: 4 } })).toEqual([])
+
+    const violations = validateBuild(build, { ...specData, pointLimits: { class: 3 } })
+    expect(violations).toHaveLength(1)
+    expect(violations[0]).toMatchObject({ type: 'section-points', section: 'class' })
+  })
+
+  it('should report nodes behind a point gate the build does not open', () => {
+    const gated = (requiredPoints: number): SpecTalentData => ({
+      ...specData,
+      nodes: specData.nodes.map(node => ({ ...node, currencyId: node.posX < 5000 ? 1 : 2 })),
+      gates: [{ id: 1, currencyId: 1, requiredPoints, nodeIds: [3] }],
+    })
+    const build = createBuild(254, [taken(0), taken(1), taken(2)])
+
+    expect(validateBuild(build, gated(3))).toEqual([])
+
+    const violations = validateBuild(build, gated(4))
+    expect(violations).toHaveLength(1)
+    expect(violations[0]).toMatchObject({ type: 'gate-locked', nodeId: 3 })
+    expect(violations[0].message).toBe('Talent 3 needs 4 points spent above its gate, but only 3 are')
+  })
+})
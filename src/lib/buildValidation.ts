@@ -0,0 +1,145 @@
+import type { SpecTalentData } from '../data/types'
+import type { ParsedTalentData } from './talentParser'
+import { getNodeSections, type TreeSection } from './treeSections'
+import { getGateStatuses, type GateStatus } from './talentGates'
+import { getSectionPointLimits, getSpentPoints } from './pointAccounting'
+
+export type BuildViolationType =
+  | 'unknown-node'
+  | 'unreachable'
+  | 'rank-exceeded'
+  | 'invalid-choice'
+  | 'spec-restricted'
+  | 'section-points'
+  | 'gate-locked'
+
+export interface BuildViolation {
+  type: BuildViolationType
+  message: string
+  nodeIndex?: number
+  nodeId?: number
+  section?: TreeSection
+}
+
+/**
+ * Check a parsed build against the rules of its spec's talent tree.
+ * Returns every violation found; an empty array means the build is legal.
+ *
+ * Granted nodes are free and always available, so they are exempt from the
+ * prerequisite and point checks.
+ */
+export function validateBuild(parsed: ParsedTalentData, specData: SpecTalentData): BuildViolation[] {
+  const violations: BuildViolation[] = []
+  const sections = getNodeSections(specData)
+
+  // Node IDs of selected nodes that have all of their ranks
+  const fullyRankedNodeIds = new Set<number>()
+  for (const selection of parsed.nodes) {
+    const node = specData.nodes[selection.nodeIndex]
+    if (!node || !selection.isSelected) continue
+    if (!selection.isPartiallyRanked || (selection.ranksPurchased ?? 0) >= node.maxRanks) {
+      fullyRankedNodeIds.add(node.id)
+    }
+  }
+
+  // Parents of each node, from the prerequisite edges
+  const parentIds = new Map<number, number[]>()
+  for (const edge of specData.edges) {
+    const existing = parentIds.get(edge.toNodeId) || []
+    existing.push(edge.fromNodeId)
+    parentIds.set(edge.toNodeId, existing)
+  }
+
+  // Nodes behind a point gate the build doesn't open
+  const closedGates = new Map<number, GateStatus>()
+  for (const status of getGateStatuses(parsed.nodes, specData)) {
+    if (status.isMet) continue
+    status.gate.nodeIds.forEach(nodeId => closedGates.set(nodeId, status))
+  }
+
+  const pointsBySection: Record<TreeSection, number> = { class: 0, spec: 0, hero: 0 }
+
+  for (const selection of parsed.nodes) {
+    if (!selection.isSelected) continue
+
+    const { nodeIndex } = selection
+    const node = specData.nodes[nodeIndex]
+    if (!node) {
+      violations.push({
+        type: 'unknown-node',
+        message: `Node ${nodeIndex} is selected but the ${specData.specName} tree only has ${specData.nodes.length} nodes`,
+        nodeIndex,
+      })
+      continue
+    }
+
+    const name = node.entries[0]?.name || `Node ${node.id}`
+    const section = sections.get(node.id) ?? 'class'
+    const context = { nodeIndex, nodeId: node.id, section }
+
+    if (node.allowedSpecs && node.allowedSpecs.length > 0 && !node.allowedSpecs.includes(parsed.specId)) {
+      violations.push({
+        type: 'spec-restricted',
+        message: `${name} is not available to ${specData.specName} ${specData.className}`,
+        ...context,
+      })
+    }
+
+    if (selection.isChoiceNode && (selection.choiceEntryIndex ?? 0) >= node.entries.length) {
+      violations.push({
+        type: 'invalid-choice',
+        message: `${name} selects choice ${(selection.choiceEntryIndex ?? 0) + 1} but only has ${node.entries.length} option(s)`,
+        ...context,
+      })
+    }
+
+    if (!selection.isPurchased) continue
+
+    const entry = selection.isChoiceNode ? node.entries[selection.choiceEntryIndex ?? 0] : node.entries[0]
+    const maxRanks = entry?.maxRanks || node.maxRanks
+    const ranks = selection.isPartiallyRanked ? (selection.ranksPurchased ?? 0) : maxRanks
+
+    if (ranks > maxRanks) {
+      violations.push({
+        type: 'rank-exceeded',
+        message: `${name} has ${ranks} ranks but its maximum is ${maxRanks}`,
+        ...context,
+      })
+    }
+
+    // A node becomes available once any of its parents is fully ranked
+    const parents = parentIds.get(node.id) || []
+    if (parents.length > 0 && !parents.some(id => fullyRankedNodeIds.has(id))) {
+      violations.push({
+        type: 'unreachable',
+        message: `${name} is selected without any of its prerequisites`,
+        ...context,
+      })
+    }
+
+    const closedGate = closedGates.get(node.id)
+    if (closedGate) {
+      violations.push({
+        type: 'gate-locked',
+        message: `${name} needs ${closedGate.gate.requiredPoints} points spent above its gate, but only ${closedGate.spent} are`,
+        ...context,
+      })
+    }
+
+    pointsBySection[section] += getSpentPoints(node, selection.isPurchased, Math.min(ranks, maxRanks))
+  }
+
+  const limits = getSectionPointLimits(specData)
+  for (const section of ['class', 'spec', 'hero'] as const) {
+    const limit = limits[section]
+    if (pointsBySection[section] > limit) {
+      violations.push({
+        type: 'section-points',
+        message: `${pointsBySection[section]} points spent in the ${section} tree, but only ${limit} are available`,
+        section,
+      })
+    }
+  }
+
+  return violations
+}
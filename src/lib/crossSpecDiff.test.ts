@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { compareAcrossSpecs } from './crossSpecDiff'
+import { createBuild, createNode, createSelection, createSpecData, taken } from '../test/fixtures'
+
+const heroTrees = [{ id: 42, name: 'Sentinel', nodeIds: [50] }]
+
+// Both specs share the class nodes but order them differently
+const marksmanship = createSpecData([
+  createNode(10, { posX: 1000, posY: 100, names: ['Shared A'] }),
+  createNode(20, { posX: 1600, posY: 100, names: ['Shared B'] }),
+  createNode(30, { posX: 1600, posY: 100, names: ['Marksmanship Class Node'], allowedSpecs: [254] }),
+  createNode(40, { posX: 9000, posY: 100, names: ['Aimed Shot'], allowedSpecs: [254] }),
+  createNode(50, { posX: 5000, posY: 100, names: ['Sentinel Talent'] }),
+], { heroTrees })
+const beastMastery = createSpecData([
+  createNode(20, { posX: 1600, posY: 100, names: ['Shared B'] }),
+  createNode(10, { posX: 1000, posY: 100, names: ['Shared A'] }),
+  createNode(30, { posX: 1600, posY: 100, names: ['Marksmanship Class Node'], allowedSpecs: [254] }),
+  createNode(60, { posX: 9000, posY: 100, names: ['Kill Command'], allowedSpecs: [253] }),
+  createNode(50, { posX: 5000, posY: 100, names: ['Sentinel Talent'] }),
+], { specId: 253, specName: 'Beast Mastery', heroTrees })
+
+// Helper to create a build taking the given node indices
+const pickBuild = (specId: number, selectedIndices: number[]) =>
+  createBuild(specId, [0, 1, 2, 3, 4].map(i => selectedIndices.includes(i) ? taken(i) : createSelection(i, false)))
+
+describe('compareAcrossSpecs', () => {
+  // Marksmanship takes Shared A, its own class node, Aimed Shot and the hero talent
+  const buildA = pickBuild(254, [0, 2, 3, 4])
+  // Beast Mastery takes Shared B (index 0 in its tree) and Kill Command
+  const buildB = pickBuild(253, [0, 3])
+
+  it('should match shared class nodes by ID', () => {
+    const result = compareAcrossSpecs(buildA, marksmanship, buildB, beastMastery)
+
+    expect(result.sharedNodeIds).toEqual(new Set([10, 20]))
+    // Indices refer to Build B's tree: Shared B is 0, Shared A is 1
+    expect(result.diff.summary.added).toEqual([0])
+    expect(result.diff.summary.removed).toEqual([1])
+  })
+
+  it('should leave out class nodes locked to one spec', () => {
+    const result = compareAcrossSpecs(buildA, marksmanship, buildB, beastMastery)
+
+    expect(result.lockedNodeIds).toEqual(new Set([30]))
+    expect(result.buildA.nodes[2].isSelected).toBe(false)
+  })
+
+  it('should list spec and hero talents without diffing them', () => {
+    const result = compareAcrossSpecs(buildA, marksmanship, buildB, beastMastery)
+
+    expect(result.specTalents.a.map(t => t.entry?.name)).toEqual(['Aimed Shot'])
+    expect(result.specTalents.b.map(t => t.entry?.name)).toEqual(['Kill Command'])
+    expect(result.heroTalents.a.map(t => t.entry?.name)).toEqual(['Sentinel Talent'])
+    expect(result.heroTalents.b).toEqual([])
+    expect(result.diff.diffs.every(d => [0, 1].includes(d.nodeIndex))).toBe(true)
+  })
+
+  it('should reject specs of different classes', () => {
+    const mage = createSpecData(marksmanship.nodes, { specId: 62, specName: 'Arcane', className: 'Mage' })
+    expect(() => compareAcrossSpecs(buildA, marksmanship, pickBuild(62, []), mage)).toThrow(/different classes/)
+  })
+})
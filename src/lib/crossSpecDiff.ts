@@ -0,0 +1,97 @@
+import type { SpecTalentData, TalentNodeData } from '../data/types'
+import type { ParsedTalentData, TalentNodeSelection } from './talentParser'
+import { diffTalentBuilds, type TalentDiffResult } from './talentDiff'
+import { resolveBuild, type ResolvedTalent } from './buildResolver'
+import { getNodeSections } from './treeSections'
+
+export interface CrossSpecComparison {
+  diff: TalentDiffResult // Shared class tree only, indexed by Build B's tree
+  buildA: ParsedTalentData // Build A's shared class talents, on Build B's tree
+  buildB: ParsedTalentData // Build B's shared class talents
+  sharedNodeIds: Set<number>
+  lockedNodeIds: Set<number> // Class nodes only one of the two specs can take
+  specTalents: { a: ResolvedTalent[]; b: ResolvedTalent[] }
+  heroTalents: { a: ResolvedTalent[]; b: ResolvedTalent[] }
+}
+
+// A node is available to a spec if it has no restriction or lists the spec
+export function isAvailableTo(node: TalentNodeData, specId: number): boolean {
+  return !node.allowedSpecs || node.allowedSpecs.length === 0 || node.allowedSpecs.includes(specId)
+}
+
+/**
+ * Compare two builds of different specs of the same class.
+ *
+ * Only the class tree is shared, so class nodes are matched by node ID and diffed;
+ * nodes that either spec can't take (per allowedSpecs) are left out. The spec and
+ * hero trees have nothing in common and are returned as separate lists.
+ */
+export function compareAcrossSpecs(
+  buildA: ParsedTalentData,
+  specDataA: SpecTalentData,
+  buildB: ParsedTalentData,
+  specDataB: SpecTalentData
+): CrossSpecComparison {
+  if (specDataA.className !== specDataB.className) {
+    throw new Error(
+      `Cannot compare different classes: ${specDataA.specName} ${specDataA.className} vs ${specDataB.specName} ${specDataB.className}`
+    )
+  }
+
+  const sectionsA = getNodeSections(specDataA)
+  const sectionsB = getNodeSections(specDataB)
+  const nodesA = new Map(specDataA.nodes.map(node => [node.id, node]))
+
+  // Class nodes present in both trees, split by whether both specs can take them
+  const sharedNodeIds = new Set<number>()
+  const lockedNodeIds = new Set<number>()
+  for (const node of specDataB.nodes) {
+    const nodeA = nodesA.get(node.id)
+    if (!nodeA || sectionsA.get(node.id) !== 'class' || sectionsB.get(node.id) !== 'class') continue
+
+    if (isAvailableTo(nodeA, buildA.specId) && isAvailableTo(node, buildA.specId) &&
+        isAvailableTo(nodeA, buildB.specId) && isAvailableTo(node, buildB.specId)) {
+      sharedNodeIds.add(node.id)
+    } else {
+      lockedNodeIds.add(node.id)
+    }
+  }
+
+  // Project both builds onto Build B's tree, keeping only the shared class nodes
+  const selectionsA = new Map<number, TalentNodeSelection>()
+  buildA.nodes.forEach(selection => {
+    const node = specDataA.nodes[selection.nodeIndex]
+    if (node) selectionsA.set(node.id, selection)
+  })
+
+  const project = (getSelection: (node: TalentNodeData, nodeIndex: number) => TalentNodeSelection | undefined) =>
+    specDataB.nodes.map((node, nodeIndex): TalentNodeSelection => {
+      const selection = sharedNodeIds.has(node.id) ? getSelection(node, nodeIndex) : undefined
+      return selection ? { ...selection, nodeIndex } : { nodeIndex, isSelected: false }
+    })
+
+  const projectedA: ParsedTalentData = {
+    ...buildB,
+    nodes: project(node => selectionsA.get(node.id)),
+  }
+  const projectedB: ParsedTalentData = {
+    ...buildB,
+    nodes: project((_, nodeIndex) => buildB.nodes[nodeIndex]),
+  }
+
+  // Talents of one section, leaving out the hero tree selector nodes (type=3)
+  const resolvedA = resolveBuild(buildA, specDataA).talents
+  const resolvedB = resolveBuild(buildB, specDataB).talents
+  const inSection = (talents: ResolvedTalent[], specData: SpecTalentData, section: ResolvedTalent['section']) =>
+    talents.filter(talent => talent.section === section && specData.nodes[talent.nodeIndex].type !== 3)
+
+  return {
+    diff: diffTalentBuilds(projectedA, projectedB),
+    buildA: projectedA,
+    buildB: projectedB,
+    sharedNodeIds,
+    lockedNodeIds,
+    specTalents: { a: inSection(resolvedA, specDataA, 'spec'), b: inSection(resolvedB, specDataB, 'spec') },
+    heroTalents: { a: inSection(resolvedA, specDataA, 'hero'), b: inSection(resolvedB, specDataB, 'hero') },
+  }
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import { checkDataCompatibility, checkTalentStringEnd } from './dataCompatibility'
+import { parseTalentString, serializeTalentString } from './talentParser'
+import { TrailingBitsError } from './talentStringErrors'
+import marksmanship from '../data/specs/12.0.1.65337/254.json'
+import { createBuild, createNode, createSelection, createSpecData, taken } from '../test/fixtures'
+
+const specData = createSpecData([createNode(1), createNode(2), createNode(3)], {
+  gameBuild: '12.0.1.65337',
+})
+
+// Helper to create a build selecting the nodes flagged true
+const pickBuild = (selected: boolean[]) =>
+  createBuild(254, selected.map((isSelected, nodeIndex) => isSelected ? taken(nodeIndex) : createSelection(nodeIndex, false)))
+
+describe('checkDataCompatibility', () => {
+  it('should accept a string with the same node count', () => {
+    expect(checkDataCompatibility(pickBuild([true, false, true]), specData)).toEqual([])
+  })
+
+  it('should accept trailing padding nodes', () => {
+    const build = pickBuild([true, false, true, false, false, false, false, false])
+    expect(checkDataCompatibility(build, specData)).toEqual([])
+  })
+
+  it('should report a string with fewer nodes than the data', () => {
+    const mismatches = checkDataCompatibility(pickBuild([true, false]), specData)
+
+    expect(mismatches).toHaveLength(1)
+    expect(mismatches[0].type).toBe('node-count')
+    expect(mismatches[0].message).toMatch(/encodes 2 nodes/)
+    expect(mismatches[0].message).toMatch(/patch 12\.0\.1\.65337 has 3/)
+  })
+
+  it('should leave selected nodes within the padding to checkTalentStringEnd', () => {
+    expect(checkDataCompatibility(pickBuild([true, false, true, true]), specData)).toEqual([])
+  })
+
+  it('should report more trailing nodes than padding allows', () => {
+    const build = pickBuild([true, false, true, ...Array(6).fill(false)])
+    expect(checkDataCompatibility(build, specData).map(m => m.type)).toEqual(['node-count'])
+  })
+
+  it('should not compare the tree hash', () => {
+    const build = { ...pickBuild([true, false, true]), treeHash: 'cd'.repeat(16) }
+    expect(checkDataCompatibility(build, { ...specData, fingerprint: 'ab'.repeat(16) })).toEqual([])
+  })
+})
+
+describe('checkTalentStringEnd', () => {
+  // Export string of the build, and the build as read without the tree's node count
+  const exported = (selected: boolean[]) => {
+    const talentString = serializeTalentString(pickBuild(selected))
+    return { talentString, parsed: parseTalentString(talentString) }
+  }
+
+  it('should accept a string that ends with the tree', () => {
+    const { talentString, parsed } = exported([true, false, true])
+    expect(checkTalentStringEnd(talentString, parsed, specData)).toBeNull()
+  })
+
+  it('should report data past the last node', () => {
+    const { talentString, parsed } = exported([true, false, true, true])
+
+    expect(checkDataCompatibility(parsed, specData)).toEqual([])
+    expect(checkTalentStringEnd(talentString, parsed, specData)).toBeInstanceOf(TrailingBitsError)
+  })
+
+  it('should not report a Marksmanship string exported before the shipped data', () => {
+    // Decodes to 209 nodes; the data has 212
+    const talentString = 'C4PAAAAAAAAAAAAAAAAAAAAAAwCMwwohBwMYDAAAAAAAAYGzMzYbGzYMDGTzYMzYZbzMzMMzMMzsMGzywMDAAgxYAwoNwAsN'
+    const parsed = parseTalentString(talentString)
+
+    expect(checkDataCompatibility(parsed, marksmanship).map(m => m.type)).toEqual(['node-count'])
+    expect(checkTalentStringEnd(talentString, parsed, marksmanship)).toBeNull()
+  })
+
+  it('should leave strings from another patch to checkDataCompatibility', () => {
+    const { talentString, parsed } = exported([true, ...Array(11).fill(false), true])
+
+    expect(checkDataCompatibility(parsed, specData).map(m => m.type)).toEqual(['node-count'])
+    expect(checkTalentStringEnd(talentString, parsed, specData)).toBeNull()
+  })
+})
@@ -0,0 +1,62 @@
+import type { SpecTalentData } from '../data/types'
+import { parseTalentString, type ParsedTalentData } from './talentParser'
+import { TalentStringError } from './talentStringErrors'
+
+export type DataMismatchType = 'node-count'
+
+export interface DataMismatch {
+  type: DataMismatchType
+  message: string
+}
+
+// The last base64 character holds up to 5 padding bits, each read as an unselected node
+const MAX_PADDING_NODES = 5
+
+/**
+ * Check whether a talent string was exported against the same tree as the loaded spec data.
+ * A string from another patch decodes into a different number of nodes, and its node
+ * indices point at the wrong talents.
+ *
+ * The string's tree hash isn't checked: the game computes it in a way the data doesn't
+ * reproduce, and most exports leave it zeroed anyway.
+ */
+export function checkDataCompatibility(parsed: ParsedTalentData, specData: SpecTalentData): DataMismatch[] {
+  const mismatches: DataMismatch[] = []
+  const patch = specData.gameBuild ? `patch ${specData.gameBuild}` : 'the current patch'
+
+  if (!isNodeCountCompatible(parsed, specData)) {
+    mismatches.push({
+      type: 'node-count',
+      message: `This string encodes ${parsed.nodes.length} nodes, but the talent data for ${patch} has ${specData.nodes.length}. It was probably exported on a different patch, so talents may be shown incorrectly.`,
+    })
+  }
+
+  return mismatches
+}
+
+/**
+ * Re-read a talent string against the tree's node count, which catches data past the
+ * tree's last node. Only strings whose node count agrees with the tree are checked: any
+ * other string was exported on another patch, and checkDataCompatibility reports it.
+ */
+export function checkTalentStringEnd(
+  talentString: string,
+  parsed: ParsedTalentData,
+  specData: SpecTalentData
+): TalentStringError | null {
+  if (!isNodeCountCompatible(parsed, specData)) return null
+  try {
+    parseTalentString(talentString, { nodeCount: specData.nodes.length })
+    return null
+  } catch (e) {
+    if (e instanceof TalentStringError) return e
+    throw e
+  }
+}
+
+// A string read without the tree's node count decodes the final character's padding as
+// nodes, so it matches the tree when it has up to MAX_PADDING_NODES more nodes than the data
+function isNodeCountCompatible(parsed: ParsedTalentData, specData: SpecTalentData): boolean {
+  const extraNodes = parsed.nodes.length - specData.nodes.length
+  return extraNodes >= 0 && extraNodes <= MAX_PADDING_NODES
+}
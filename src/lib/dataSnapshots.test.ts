@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest'
+import { getDefaultSnapshot } from './dataSnapshots'
+
+const live = { gameBuild: '12.0.1.65337', branch: 'live', complete: true }
+
+describe('getDefaultSnapshot', () => {
+  it('should pick the newest complete live snapshot', () => {
+    const newer = { gameBuild: '12.0.1.66102', branch: 'live', complete: true }
+    expect(getDefaultSnapshot([newer, live])).toBe('12.0.1.66102')
+  })
+
+  it('should skip newer PTR and partial snapshots', () => {
+    const snapshots = [
+      { gameBuild: '12.0.5.66500', branch: 'ptr', complete: true },
+      { gameBuild: '12.0.1.66102', branch: 'live', complete: false },
+      live,
+    ]
+    expect(getDefaultSnapshot(snapshots)).toBe('12.0.1.65337')
+  })
+
+  it('should fall back to the newest snapshot when none is complete and live', () => {
+    const snapshots = [
+      { gameBuild: '12.0.5.66500', branch: 'ptr', complete: true },
+      { gameBuild: '12.0.1.66102', branch: 'live', complete: false },
+    ]
+    expect(getDefaultSnapshot(snapshots)).toBe('12.0.5.66500')
+  })
+})
@@ -0,0 +1,13 @@
+import type { DataSnapshot } from '../data/types'
+
+/**
+ * The snapshot builds are read against unless another is chosen: the newest one that has
+ * every spec of the live game. A partial run or a PTR/beta build can be newer, but it is
+ * only used when picked, since it may lack the spec a build is for.
+ *
+ * Snapshots are listed newest first. Falls back to the newest when none qualifies.
+ */
+export function getDefaultSnapshot(snapshots: DataSnapshot[]): string {
+  const snapshot = snapshots.find(s => s.complete && s.branch === 'live') ?? snapshots[0]
+  return snapshot.gameBuild
+}
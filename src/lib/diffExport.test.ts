@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest'
+import { createDiffExport, formatDiffDiscord, formatDiffJson, formatDiffMarkdown } from './diffExport'
+import { groupDiffBySection } from './diffGroups'
+import { diffTalentBuilds } from './talentDiff'
+import { createBuild, createNode, createSpecData, taken } from '../test/fixtures'
+
+const specData = createSpecData([
+  createNode(10, { posX: 1000, posY: 200, names: ['Lower Class Talent'] }),
+  createNode(20, { posX: 1600, posY: 100, names: ['Option A', 'Option B'] }),
+  createNode(30, { posX: 1000, posY: 100, names: ['Ranked Talent'], maxRanks: 2 }),
+  createNode(40, { posX: 9000, posY: 100, names: ['Spec Talent'] }),
+  createNode(50, { posX: 5000, posY: 100, names: ['Hero Talent'] }),
+  createNode(60, { posX: 5000, posY: 100, names: ['', ''], type: 3 }),
+], {
+  heroTrees: [{ id: 42, name: 'Sentinel', nodeIds: [50] }],
+})
+
+const buildA = createBuild(254, [
+  taken(1, { isChoiceNode: true, choiceEntryIndex: 0 }),
+  taken(2, { isPartiallyRanked: true, ranksPurchased: 1 }),
+  taken(3),
+])
+const buildB = createBuild(254, [
+  taken(0),
+  taken(1, { isChoiceNode: true, choiceEntryIndex: 1 }),
+  taken(2),
+  taken(4),
+  taken(5, { isChoiceNode: true, choiceEntryIndex: 0 }),
+])
+const diffResult = diffTalentBuilds(buildA, buildB)
+
+describe('groupDiffBySection', () => {
+  it('should group changes by section in tree order', () => {
+    const grouped = groupDiffBySection(diffResult, specData)
+
+    expect(grouped.class).toEqual({ added: [0], removed: [], changed: [2, 1] })
+    expect(grouped.spec).toEqual({ added: [], removed: [3], changed: [] })
+    expect(grouped.hero).toEqual({ added: [4], removed: [], changed: [] })
+  })
+
+  it('should put everything in the class section without spec data', () => {
+    const grouped = groupDiffBySection(diffResult, null)
+    expect(grouped.class.added).toEqual([0, 4, 5])
+  })
+})
+
+describe('createDiffExport', () => {
+  it('should name each change and its details', () => {
+    const { sections } = createDiffExport(diffResult, specData)
+
+    expect(sections.class.changed).toEqual([
+      { nodeId: 30, name: 'Ranked Talent', rankChange: { from: 1, to: 2 } },
+      { nodeId: 20, name: 'Option A', choiceChange: { from: 'Option A', to: 'Option B' } },
+    ])
+    expect(sections.spec.removed).toEqual([{ nodeId: 40, name: 'Spec Talent' }])
+  })
+
+  it('should leave out hero tree selector nodes', () => {
+    const { sections } = createDiffExport(diffResult, specData)
+    expect(sections.hero.added.map(item => item.nodeId)).toEqual([50])
+  })
+})
+
+describe('formatDiffMarkdown', () => {
+  it('should write a heading per section and a list per change type', () => {
+    expect(formatDiffMarkdown(diffResult, specData)).toBe([
+      '## Marksmanship Hunter talent changes',
+      '',
+      '### Class Talents',
+      '',
+      '**Added**',
+      '- Lower Class Talent',
+      '',
+      '**Changed**',
+      '- Ranked Talent (rank 1 → 2)',
+      '- Option A → Option B',
+      '',
+      '### Hero Talents',
+      '',
+      '**Added**',
+      '- Hero Talent',
+      '',
+      '### Spec Talents',
+      '',
+      '**Removed**',
+      '- Spec Talent',
+    ].join('\n'))
+  })
+})
+
+describe('formatDiffDiscord', () => {
+  it('should mark each change with an emoji', () => {
+    expect(formatDiffDiscord(diffResult, specData)).toBe([
+      '**Marksmanship Hunter talent changes**',
+      '',
+      '**Class Talents**',
+      '🟢 Lower Class Talent',
+      '🔄 Ranked Talent (rank 1 → 2)',
+      '🔄 Option A → Option B',
+      '',
+      '**Hero Talents**',
+      '🟢 Hero Talent',
+      '',
+      '**Spec Talents**',
+      '🔴 Spec Talent',
+    ].join('\n'))
+  })
+})
+
+describe('formatDiffJson', () => {
+  it('should serialize the grouped changes', () => {
+    const parsed = JSON.parse(formatDiffJson(diffResult, specData))
+
+    expect(parsed.specId).toBe(254)
+    expect(parsed.specName).toBe('Marksmanship')
+    expect(Object.keys(parsed.sections)).toEqual(['class', 'hero', 'spec'])
+    expect(parsed.sections.hero.added).toEqual([{ nodeId: 50, name: 'Hero Talent' }])
+  })
+})
+
+describe('hero tree switches', () => {
+  const heroSpecData = {
+    ...specData,
+    nodes: [...specData.nodes, createNode(70, { posX: 5200, posY: 100, names: ['Other Hero Talent'] })],
+    heroTrees: [
+      { id: 42, name: 'Sentinel', nodeIds: [50] },
+      { id: 43, name: 'Dark Ranger', nodeIds: [70] },
+    ],
+  }
+  const switchDiff = diffTalentBuilds(
+    createBuild(254, [taken(3), taken(4)]),
+    createBuild(254, [taken(6)]),
+    heroSpecData
+  )
+
+  it('should record the switch and the nodes it covers', () => {
+    expect(createDiffExport(switchDiff, heroSpecData).heroTreeChange).toEqual({
+      from: 'Sentinel',
+      to: 'Dark Ranger',
+      nodeIds: [50, 70],
+    })
+  })
+
+  it('should replace the switched hero talents with one line', () => {
+    expect(formatDiffDiscord(switchDiff, heroSpecData)).toBe([
+      '**Marksmanship Hunter talent changes**',
+      '',
+      '**Hero Talents**',
+      '🔀 Hero tree: Sentinel → Dark Ranger',
+      '',
+      '**Spec Talents**',
+      '🔴 Spec Talent',
+    ].join('\n'))
+    expect(formatDiffMarkdown(switchDiff, heroSpecData)).toContain('**Hero tree:** Sentinel → Dark Ranger')
+  })
+})
@@ -0,0 +1,160 @@
+import type { SpecTalentData } from '../data/types'
+import type { TalentDiffResult } from './talentDiff'
+import type { TalentNodeSelection } from './talentParser'
+import {
+  groupDiffBySection,
+  SECTION_ORDER,
+  SECTION_LABELS,
+  type ChangeType,
+} from './diffGroups'
+import type { TreeSection } from './treeSections'
+
+export interface DiffExportItem {
+  nodeId: number
+  name: string
+  rankChange?: { from: number; to: number }
+  choiceChange?: { from: string; to: string } // Option names
+}
+
+export interface DiffExport {
+  specId: number
+  specName?: string
+  heroTreeChange?: { from: string; to: string; nodeIds: number[] } // Hero tree names, and the node changes the switch covers
+  sections: Record<TreeSection, Record<ChangeType, DiffExportItem[]>>
+}
+
+const CHANGE_LABELS: Record<ChangeType, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed',
+}
+
+const CHANGE_TYPES: ChangeType[] = ['added', 'removed', 'changed']
+
+const DISCORD_MARKERS: Record<ChangeType, string> = {
+  added: '🟢',
+  removed: '🔴',
+  changed: '🔄',
+}
+
+/**
+ * Describe a diff's changes by name, grouped by section and change type
+ * the same way the summary panel shows them.
+ */
+export function createDiffExport(diffResult: TalentDiffResult, specData: SpecTalentData): DiffExport {
+  const grouped = groupDiffBySection(diffResult, specData)
+  const diffsByIndex = new Map(diffResult.diffs.map(diff => [diff.nodeIndex, diff]))
+
+  const describe = (nodeIndex: number): DiffExportItem => {
+    const node = specData.nodes[nodeIndex]
+    const diff = diffsByIndex.get(nodeIndex)
+    const { choiceChange } = diff?.changeDetails ?? {}
+    const optionName = (entryIndex: number) => node?.entries[entryIndex]?.name || `Option ${entryIndex + 1}`
+
+    // The diff only knows purchased ranks, so a fully ranked side counts as the node's maximum
+    const getRanks = (selection?: TalentNodeSelection) =>
+      selection?.isPartiallyRanked ? (selection.ranksPurchased ?? 1) : (node?.maxRanks ?? 1)
+    const rankChange = diff?.changeDetails?.rankChange && { from: getRanks(diff.buildA), to: getRanks(diff.buildB) }
+
+    return {
+      nodeId: node?.id ?? nodeIndex,
+      name: node?.entries[0]?.name || `Node ${node?.id ?? nodeIndex}`,
+      ...(rankChange ? { rankChange } : {}),
+      ...(choiceChange ? { choiceChange: { from: optionName(choiceChange.from), to: optionName(choiceChange.to) } } : {}),
+    }
+  }
+
+  const sections = {} as DiffExport['sections']
+  for (const section of SECTION_ORDER) {
+    sections[section] = {
+      added: grouped[section].added.map(describe),
+      removed: grouped[section].removed.map(describe),
+      changed: grouped[section].changed.map(describe),
+    }
+  }
+
+  const { heroTreeChange } = diffResult
+
+  return {
+    specId: diffResult.specId,
+    ...(specData.specName ? { specName: specData.specName } : {}),
+    ...(heroTreeChange ? {
+      heroTreeChange: {
+        from: heroTreeChange.from.name,
+        to: heroTreeChange.to.name,
+        nodeIds: heroTreeChange.nodeIndices.map(nodeIndex => specData.nodes[nodeIndex]?.id ?? nodeIndex),
+      },
+    } : {}),
+    sections,
+  }
+}
+
+// "Name", "From → To" or "Name (rank 1 → 2)"
+function formatItem(item: DiffExportItem): string {
+  const label = item.choiceChange ? `${item.choiceChange.from} → ${item.choiceChange.to}` : item.name
+  return item.rankChange ? `${label} (rank ${item.rankChange.from} → ${item.rankChange.to})` : label
+}
+
+// Changes of one section and type, leaving out those a hero tree switch covers
+function getItems(diffExport: DiffExport, section: TreeSection, changeType: ChangeType): DiffExportItem[] {
+  const switched = new Set(diffExport.heroTreeChange?.nodeIds)
+  return diffExport.sections[section][changeType].filter(item => !switched.has(item.nodeId))
+}
+
+// Sections that have any changes, in display order
+function getChangedSections(diffExport: DiffExport): TreeSection[] {
+  return SECTION_ORDER.filter(section =>
+    (section === 'hero' && diffExport.heroTreeChange) ||
+    CHANGE_TYPES.some(changeType => getItems(diffExport, section, changeType).length > 0)
+  )
+}
+
+/**
+ * Markdown with a heading per section and a bullet list per change type.
+ * A hero tree switch is one line in place of the hero talents it changes.
+ */
+export function formatDiffMarkdown(diffResult: TalentDiffResult, specData: SpecTalentData): string {
+  const diffExport = createDiffExport(diffResult, specData)
+  const lines = [`## ${specData.specName} ${specData.className} talent changes`]
+
+  for (const section of getChangedSections(diffExport)) {
+    lines.push('', `### ${SECTION_LABELS[section]}`)
+    if (section === 'hero' && diffExport.heroTreeChange) {
+      lines.push('', `**Hero tree:** ${diffExport.heroTreeChange.from} → ${diffExport.heroTreeChange.to}`)
+    }
+    for (const changeType of CHANGE_TYPES) {
+      const items = getItems(diffExport, section, changeType)
+      if (items.length === 0) continue
+      lines.push('', `**${CHANGE_LABELS[changeType]}**`, ...items.map(item => `- ${formatItem(item)}`))
+    }
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Plain text for Discord: a bold line per section and an emoji marker per change.
+ */
+export function formatDiffDiscord(diffResult: TalentDiffResult, specData: SpecTalentData): string {
+  const diffExport = createDiffExport(diffResult, specData)
+  const blocks = [`**${specData.specName} ${specData.className} talent changes**`]
+
+  for (const section of getChangedSections(diffExport)) {
+    const lines = [`**${SECTION_LABELS[section]}**`]
+    if (section === 'hero' && diffExport.heroTreeChange) {
+      lines.push(`🔀 Hero tree: ${diffExport.heroTreeChange.from} → ${diffExport.heroTreeChange.to}`)
+    }
+    for (const changeType of CHANGE_TYPES) {
+      for (const item of getItems(diffExport, section, changeType)) {
+        lines.push(`${DISCORD_MARKERS[changeType]} ${formatItem(item)}`)
+      }
+    }
+    blocks.push(lines.join('\n'))
+  }
+
+  return blocks.join('\n\n')
+}
+
+export function formatDiffJson(diffResult: TalentDiffResult, specData: SpecTalentData): string {
+  return JSON.stringify(createDiffExport(diffResult, specData), null, 2)
+}
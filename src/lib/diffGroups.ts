@@ -0,0 +1,62 @@
+import type { SpecTalentData } from '../data/types'
+import type { TalentDiffResult } from './talentDiff'
+import { getNodeSections, type TreeSection } from './treeSections'
+
+export type ChangeType = 'added' | 'removed' | 'changed'
+
+export type GroupedDiff = Record<TreeSection, Record<ChangeType, number[]>>
+
+// Order the sections are shown in, matching the tree's layout
+export const SECTION_ORDER: TreeSection[] = ['class', 'hero', 'spec']
+
+export const SECTION_LABELS: Record<TreeSection, string> = {
+  class: 'Class Talents',
+  spec: 'Spec Talents',
+  hero: 'Hero Talents',
+}
+
+/**
+ * Group a diff's added, removed and changed node indices by tree section, each
+ * sorted by position in the tree (top to bottom, left to right).
+ *
+ * Hero tree selector nodes (type=3) are left out - they're implied by the hero talent changes.
+ */
+export function groupDiffBySection(diffResult: TalentDiffResult, specData: SpecTalentData | null): GroupedDiff {
+  const sections = specData ? getNodeSections(specData) : new Map<number, TreeSection>()
+  const grouped: GroupedDiff = {
+    class: { added: [], removed: [], changed: [] },
+    spec: { added: [], removed: [], changed: [] },
+    hero: { added: [], removed: [], changed: [] },
+  }
+
+  for (const changeType of ['added', 'removed', 'changed'] as const) {
+    for (const nodeIndex of diffResult.summary[changeType]) {
+      const node = specData?.nodes[nodeIndex]
+      if (node?.type === 3) continue
+
+      const section = node ? sections.get(node.id) ?? 'class' : 'class'
+      grouped[section][changeType].push(nodeIndex)
+    }
+  }
+
+  if (specData) {
+    for (const section of Object.values(grouped)) {
+      for (const nodeIndices of Object.values(section)) {
+        nodeIndices.sort((a, b) => {
+          const nodeA = specData.nodes[a]
+          const nodeB = specData.nodes[b]
+          if (!nodeA || !nodeB) return 0
+          return nodeA.posY - nodeB.posY || nodeA.posX - nodeB.posX
+        })
+      }
+    }
+  }
+
+  return grouped
+}
+
+// Total number of changes in one section
+export function countSectionChanges(grouped: GroupedDiff, section: TreeSection): number {
+  const { added, removed, changed } = grouped[section]
+  return added.length + removed.length + changed.length
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import { getHeroTreeChoice, getSelectedHeroTree } from './heroTreeDetection'
+import { createNode, createSpecData, taken } from '../test/fixtures'
+
+// Each hero tree's first node is granted to every build
+const heroTrees = [
+  { id: 42, name: 'Sentinel', nodeIds: [1, 2] },
+  { id: 43, name: 'Dark Ranger', nodeIds: [3, 4] },
+]
+const specData = createSpecData([1, 2, 3, 4].map(id => createNode(id, { posX: 5000, posY: 100 })), { heroTrees })
+
+const granted = (nodeIndex: number) => taken(nodeIndex, { isPurchased: false })
+
+describe('getSelectedHeroTree', () => {
+  it('should pick the hero tree with the most purchased nodes', () => {
+    expect(getSelectedHeroTree(specData, [granted(0), granted(2), taken(3)])?.name).toBe('Dark Ranger')
+  })
+
+  it('should not let granted nodes decide the hero tree', () => {
+    // Sentinel has more selected nodes, but none of them are purchased
+    const tree = getSelectedHeroTree(specData, [granted(0), granted(1), taken(2)])
+    expect(tree?.name).toBe('Dark Ranger')
+  })
+
+  it('should return null when only granted hero nodes are selected', () => {
+    expect(getSelectedHeroTree(specData, [granted(0), granted(2)])).toBeNull()
+  })
+
+  it('should return null without hero trees', () => {
+    expect(getSelectedHeroTree({ ...specData, heroTrees: [] }, [taken(0)])).toBeNull()
+  })
+})
+
+describe('getHeroTreeChoice', () => {
+  // Selector with entries 50 (index 0) and 51 (index 1), and a third hero tree for another spec
+  const selector = createNode(5, { posX: 5000, posY: 50, names: ['', ''], type: 3 })
+  const withSelector = createSpecData([
+    ...specData.nodes,
+    createNode(6, { posX: 5000, posY: 100, allowedSpecs: [253] }),
+    { ...selector, entries: [...selector.entries].reverse() },
+  ], {
+    heroTrees: [...heroTrees, { id: 41, name: 'Pack Leader', nodeIds: [6] }],
+  })
+  const [sentinel, darkRanger] = heroTrees
+
+  it('should use the hero tree recorded on the selector entries', () => {
+    const recorded = {
+      ...withSelector,
+      nodes: withSelector.nodes.map(node => node.type !== 3 ? node : {
+        ...node,
+        entries: node.entries.map((entry, i) => ({ ...entry, heroTreeId: i === 0 ? 43 : 42 })),
+      }),
+    }
+
+    expect(getHeroTreeChoice(recorded, sentinel)).toEqual({ nodeIndex: 5, choiceEntryIndex: 1 })
+    expect(getHeroTreeChoice(recorded, darkRanger)).toEqual({ nodeIndex: 5, choiceEntryIndex: 0 })
+  })
+
+  it('should pair entries and the hero trees open to the spec in ID order', () => {
+    // Entry 50 is listed second, so it picks Sentinel (42) from index 1
+    expect(getHeroTreeChoice(withSelector, sentinel)).toEqual({ nodeIndex: 5, choiceEntryIndex: 1 })
+    expect(getHeroTreeChoice(withSelector, darkRanger)).toEqual({ nodeIndex: 5, choiceEntryIndex: 0 })
+  })
+
+  it('should return null without a selector node', () => {
+    expect(getHeroTreeChoice(specData, sentinel)).toBeNull()
+  })
+})
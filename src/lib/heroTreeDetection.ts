@@ -1,9 +1,11 @@
 import type { SpecTalentData, HeroTreeData } from '../data/types'
-import type { TalentNodeSelection } from './talentParser'
+import { isGrantedNode, type TalentNodeSelection } from './talentParser'
+import { isAvailableTo } from './crossSpecDiff'
 
 /**
  * Determines which hero tree is selected based on the talent node selections.
- * Returns the hero tree with the most selected nodes.
+ * Returns the hero tree with the most purchased nodes; granted nodes don't count,
+ * since every hero tree's first node is granted to all builds.
  */
 export function getSelectedHeroTree(
   specData: SpecTalentData,
@@ -13,10 +15,10 @@ export function getSelectedHeroTree(
     return null
   }
 
-  // Create a set of selected node IDs for quick lookup
+  // Create a set of purchased node IDs for quick lookup
   const selectedNodeIds = new Set<number>()
   for (const selection of selectedNodes) {
-    if (selection.isSelected) {
+    if (selection.isSelected && !isGrantedNode(selection)) {
       const node = specData.nodes[selection.nodeIndex]
       if (node) {
         selectedNodeIds.add(node.id)
@@ -42,6 +44,38 @@ export function getSelectedHeroTree(
     }
   }
 
-  // Only return a hero tree if at least one node is selected
+  // Only return a hero tree if at least one node is purchased
   return maxCount > 0 ? bestMatch : null
 }
+
+/**
+ * Find the hero tree selector node (type=3) and the choice that picks the given hero tree.
+ * Selector entries record their hero tree; in snapshots generated before they did, the
+ * entries pair up in ID order with the hero trees open to the spec.
+ */
+export function getHeroTreeChoice(
+  specData: SpecTalentData,
+  heroTree: HeroTreeData
+): { nodeIndex: number; choiceEntryIndex: number } | null {
+  const nodeIndex = specData.nodes.findIndex(node => node.type === 3 && isAvailableTo(node, specData.specId))
+  if (nodeIndex === -1) return null
+
+  const entries = specData.nodes[nodeIndex].entries
+  if (entries.some(entry => entry.heroTreeId !== undefined)) {
+    const choiceEntryIndex = entries.findIndex(entry => entry.heroTreeId === heroTree.id)
+    return choiceEntryIndex === -1 ? null : { nodeIndex, choiceEntryIndex }
+  }
+
+  const nodeById = new Map(specData.nodes.map(node => [node.id, node]))
+  const openHeroTreeIds = (specData.heroTrees ?? [])
+    .filter(tree => tree.nodeIds.some(id => {
+      const node = nodeById.get(id)
+      return node && isAvailableTo(node, specData.specId)
+    }))
+    .map(tree => tree.id)
+    .sort((a, b) => a - b)
+  if (openHeroTreeIds.length !== entries.length) return null
+
+  const entry = [...entries].sort((a, b) => a.id - b.id)[openHeroTreeIds.indexOf(heroTree.id)]
+  return entry ? { nodeIndex, choiceEntryIndex: entries.indexOf(entry) } : null
+}
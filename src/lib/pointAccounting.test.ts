@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest'
+import { getPointBudget, SECTION_POINT_LIMITS } from './pointAccounting'
+import { resolveBuild } from './buildResolver'
+import type { TalentNodeSelection } from './talentParser'
+import { createBuild, createNode, createSpecData, taken } from '../test/fixtures'
+
+// Class node, two-rank class node, spec node, hero node and hero tree selector
+const specData = createSpecData([
+  createNode(1, { posX: 1000, posY: 100 }),
+  createNode(2, { posX: 1600, posY: 100, maxRanks: 2 }),
+  createNode(3, { posX: 9000, posY: 100 }),
+  createNode(4, { posX: 5000, posY: 100 }),
+  createNode(5, { posX: 5000, posY: 100, type: 3 }),
+], {
+  heroTrees: [{ id: 42, name: 'Sentinel', nodeIds: [4] }],
+})
+
+const budgetOf = (nodes: TalentNodeSelection[]) => getPointBudget(resolveBuild(createBuild(254, nodes), specData), specData)
+
+describe('getPointBudget', () => {
+  it('should sum purchased ranks per section', () => {
+    const budget = budgetOf([taken(0), taken(1, { isPartiallyRanked: true, ranksPurchased: 1 }), taken(2), taken(3)])
+
+    expect(budget.class.spent).toBe(2)
+    expect(budget.spec.spent).toBe(1)
+    expect(budget.hero.spent).toBe(1)
+    expect(budget.class.limit).toBe(SECTION_POINT_LIMITS.class)
+  })
+
+  it('should not count granted nodes', () => {
+    const budget = budgetOf([taken(0, { isPurchased: false }), taken(1)])
+    expect(budget.class.spent).toBe(2)
+  })
+
+  it('should not count the hero tree selector', () => {
+    const budget = budgetOf([taken(3), taken(4, { isChoiceNode: true, choiceEntryIndex: 0 })])
+    expect(budget.hero.spent).toBe(1)
+  })
+
+  it('should flag under-spent sections', () => {
+    const budget = budgetOf([taken(0)])
+
+    expect(budget.class.status).toBe('under')
+    expect(budget.spec).toEqual({ spent: 0, limit: SECTION_POINT_LIMITS.spec, status: 'under' })
+  })
+
+  it('should flag over-spent sections', () => {
+    const ranks = SECTION_POINT_LIMITS.class + 1
+    const budget = budgetOf([taken(1, { isPartiallyRanked: true, ranksPurchased: ranks })])
+
+    expect(budget.class).toEqual({ spent: ranks, limit: SECTION_POINT_LIMITS.class, status: 'over' })
+  })
+
+  it('should report a full section', () => {
+    const budget = budgetOf([taken(1, { isPartiallyRanked: true, ranksPurchased: SECTION_POINT_LIMITS.class })])
+    expect(budget.class.status).toBe('full')
+  })
+
+  it('should use the point limits recorded in the spec data', () => {
+    const limited = { ...specData, pointLimits: { hero: 1 } }
+    const budget = getPointBudget(resolveBuild(createBuild(254, [taken(3)]), limited), limited)
+
+    expect(budget.hero).toEqual({ spent: 1, limit: 1, status: 'full' })
+    expect(budget.class.limit).toBe(SECTION_POINT_LIMITS.class)
+  })
+})
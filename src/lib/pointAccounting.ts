@@ -0,0 +1,65 @@
+import type { SpecTalentData, TalentNodeData } from '../data/types'
+import type { ResolvedBuild } from './buildResolver'
+import type { TreeSection } from './treeSections'
+
+export type SpendingStatus = 'under' | 'full' | 'over'
+
+export interface SectionBudget {
+  spent: number
+  limit: number
+  status: SpendingStatus
+}
+
+export type PointBudget = Record<TreeSection, SectionBudget>
+
+// Points a player can spend in each section of the tree, for spec data that doesn't record its own
+export const SECTION_POINT_LIMITS: Record<TreeSection, number> = {
+  class: 34,
+  spec: 34,
+  hero: 13,
+}
+
+/**
+ * Maximum points a player can spend in each section of a spec's tree. Newer snapshots
+ * record the limits of their game build; older ones fall back to SECTION_POINT_LIMITS.
+ */
+export function getSectionPointLimits(specData: SpecTalentData): Record<TreeSection, number> {
+  return { ...SECTION_POINT_LIMITS, ...specData.pointLimits }
+}
+
+/**
+ * Points a selected node costs. Only purchased ranks cost points: granted nodes
+ * (isPurchased false) and the hero tree selector nodes (type=3) are free.
+ */
+export function getSpentPoints(node: TalentNodeData, isPurchased: boolean | undefined, ranks: number): number {
+  return isPurchased && node.type !== 3 ? ranks : 0
+}
+
+/**
+ * Count the points a build spends in each section of the tree, against the section's limit.
+ */
+export function getPointBudget(build: ResolvedBuild, specData: SpecTalentData): PointBudget {
+  const spent: Record<TreeSection, number> = { class: 0, spec: 0, hero: 0 }
+  const limits = getSectionPointLimits(specData)
+
+  for (const talent of build.talents) {
+    const node = specData.nodes[talent.nodeIndex]
+    if (!node) continue
+    spent[talent.section] += getSpentPoints(node, talent.isPurchased, talent.ranks)
+  }
+
+  const getSectionBudget = (section: TreeSection): SectionBudget => {
+    const limit = limits[section]
+    return {
+      spent: spent[section],
+      limit,
+      status: spent[section] < limit ? 'under' : spent[section] > limit ? 'over' : 'full',
+    }
+  }
+
+  return {
+    class: getSectionBudget('class'),
+    spec: getSectionBudget('spec'),
+    hero: getSectionBudget('hero'),
+  }
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest'
+import { planRespec } from './respecPlanner'
+import { diffTalentBuilds } from './talentDiff'
+import type { SpecTalentData } from '../data/types'
+import { createBuild, createNode, createSpecData, pickNodes, type Pick } from '../test/fixtures'
+
+//    1
+//   / \
+//  2   3 (2 ranks)
+//   \ /
+//    4 (choice)
+const specData = createSpecData([
+  createNode(1, { posX: 1000, posY: 100 }),
+  createNode(2, { posX: 1000, posY: 200 }),
+  createNode(3, { posX: 1000, posY: 200, maxRanks: 2 }),
+  createNode(4, { posX: 1000, posY: 300, names: ['Talent 4a', 'Talent 4b'] }),
+], {
+  edges: [
+    { fromNodeId: 1, toNodeId: 2, type: 2 },
+    { fromNodeId: 1, toNodeId: 3, type: 2 },
+    { fromNodeId: 2, toNodeId: 4, type: 2 },
+    { fromNodeId: 3, toNodeId: 4, type: 2 },
+  ],
+  heroTrees: [],
+})
+
+const pickBuild = (picks: Pick[]) => createBuild(254, pickNodes(specData, picks))
+
+const plan = (a: Pick[], b: Pick[]) => planRespec(diffTalentBuilds(pickBuild(a), pickBuild(b)), specData)
+const describeSteps = (a: Pick[], b: Pick[]) =>
+  plan(a, b).steps.map(step => `${step.type} ${step.name} ${step.fromRanks}->${step.toRanks}`)
+
+describe('planRespec', () => {
+  it('should have no steps for identical builds', () => {
+    expect(plan([0, 1], [0, 1])).toEqual({ steps: [], blocked: [] })
+  })
+
+  it('should buy parents before their children', () => {
+    expect(describeSteps([], [0, 1, 3])).toEqual([
+      'purchase Talent 1 0->1',
+      'purchase Talent 2 0->1',
+      'purchase Talent 4a 0->1',
+    ])
+  })
+
+  it('should refund children before their parents', () => {
+    expect(describeSteps([0, 1, 3], [])).toEqual([
+      'refund Talent 4a 1->0',
+      'refund Talent 2 1->0',
+      'refund Talent 1 1->0',
+    ])
+  })
+
+  it('should buy a new path before refunding the old one', () => {
+    // Talent 4 moves from hanging off Talent 2 to hanging off Talent 3
+    expect(describeSteps([0, 1, 3], [0, 2, 3])).toEqual([
+      'purchase Talent 3 0->2',
+      'refund Talent 2 1->0',
+    ])
+  })
+
+  it('should refund a partially ranked parent before buying its children elsewhere', () => {
+    expect(describeSteps([0, { index: 2, ranks: 1 }], [0, 1])).toEqual([
+      'refund Talent 3 1->0',
+      'purchase Talent 2 0->1',
+    ])
+  })
+
+  it('should switch choice nodes in place', () => {
+    const { steps } = plan([0, 1, { index: 3, choice: 0 }], [0, 1, { index: 3, choice: 1 }])
+    expect(steps).toEqual([expect.objectContaining({
+      type: 'switch',
+      name: 'Talent 4b',
+      fromChoice: 'Talent 4a',
+      fromRanks: 1,
+      toRanks: 1,
+    })])
+  })
+
+  it('should treat granted nodes as always available', () => {
+    expect(describeSteps([{ index: 0, granted: true }], [{ index: 0, granted: true }, 1])).toEqual([
+      'purchase Talent 2 0->1',
+    ])
+  })
+
+  it('should report nodes that cannot be reached', () => {
+    // Talent 2 has no parent in Build B
+    const result = plan([], [1])
+    expect(result.steps).toEqual([])
+    expect(result.blocked).toEqual([1])
+  })
+
+  describe('with a point gate in front of Talent 4', () => {
+    const gated = (requiredPoints: number): SpecTalentData => ({
+      ...specData,
+      nodes: specData.nodes.map(node => ({ ...node, currencyId: 1 })),
+      gates: [{ id: 1, currencyId: 1, requiredPoints, nodeIds: [4] }],
+    })
+    const gatedPlan = (a: Pick[], b: Pick[], requiredPoints: number) =>
+      planRespec(diffTalentBuilds(pickBuild(a), pickBuild(b)), gated(requiredPoints))
+
+    it('should not buy gated nodes before the gate opens', () => {
+      expect(gatedPlan([], [0, 1, 3], 2).blocked).toEqual([])
+      expect(gatedPlan([], [0, 1, 3], 3).blocked).toEqual([3])
+    })
+
+    it('should not refund below a gate while gated nodes are taken', () => {
+      const result = gatedPlan([0, 1, 2, 3], [0, 2, 3], 4)
+      expect(result.steps).toEqual([])
+      expect(result.blocked).toEqual([1])
+    })
+  })
+})
@@ -0,0 +1,205 @@
+import type { SpecTalentData, TalentGateData, TalentNodeData } from '../data/types'
+import type { TalentNodeSelection } from './talentParser'
+import type { TalentDiffResult } from './talentDiff'
+import { getNodeSections, type TreeSection } from './treeSections'
+import { getSectionPointLimits, getSpentPoints } from './pointAccounting'
+import { getGateProgress } from './talentGates'
+
+export type RespecStepType = 'refund' | 'purchase' | 'switch'
+
+export interface RespecStep {
+  type: RespecStepType
+  nodeIndex: number
+  nodeId: number
+  name: string // Name of the option taken after the step (before it, for refunds)
+  section: TreeSection
+  fromRanks: number
+  toRanks: number
+  fromChoice?: string // Previous option, for switches
+}
+
+export interface RespecPlan {
+  steps: RespecStep[]
+  blocked: number[] // Node indices that could not be changed in any legal order
+}
+
+interface NodeState {
+  ranks: number
+  choiceEntryIndex: number
+}
+
+function getState(selection: TalentNodeSelection | undefined, node: TalentNodeData): NodeState {
+  if (!selection?.isSelected) return { ranks: 0, choiceEntryIndex: 0 }
+  return {
+    ranks: selection.isPartiallyRanked ? (selection.ranksPurchased ?? 0) : node.maxRanks,
+    choiceEntryIndex: selection.isChoiceNode ? (selection.choiceEntryIndex ?? 0) : 0,
+  }
+}
+
+/**
+ * Plan the order of in-game clicks that turns Build A into Build B.
+ *
+ * A node can only be bought once one of its parents (per the tree's edges) is fully
+ * ranked, and a node can only be refunded if every talent below it still has another
+ * fully ranked parent. Purchases must also fit in their section's point budget, so
+ * refunds are made first whenever one is possible. Switching a choice node keeps its
+ * ranks and is always allowed.
+ *
+ * Nodes behind a point gate can only be bought once the gate is open, and a refund
+ * can't close a gate in front of nodes that are still taken.
+ *
+ * Granted nodes are free and never change. Hero tree selector nodes (type=3) follow
+ * the hero talents and are left out of the plan.
+ */
+export function planRespec(diffResult: TalentDiffResult, specData: SpecTalentData): RespecPlan {
+  const sections = getNodeSections(specData)
+
+  // Parents and children of each node, from the prerequisite edges
+  const parentIds = new Map<number, number[]>()
+  const childIds = new Map<number, number[]>()
+  for (const edge of specData.edges) {
+    parentIds.set(edge.toNodeId, [...(parentIds.get(edge.toNodeId) ?? []), edge.fromNodeId])
+    childIds.set(edge.fromNodeId, [...(childIds.get(edge.fromNodeId) ?? []), edge.toNodeId])
+  }
+
+  const nodeIndexById = new Map(specData.nodes.map((node, index) => [node.id, index]))
+  const current = new Map<number, NodeState>()
+  const target = new Map<number, NodeState>()
+  const granted = new Set<number>()
+  const pointsBySection: Record<TreeSection, number> = { class: 0, spec: 0, hero: 0 }
+  const pointLimits = getSectionPointLimits(specData)
+
+  for (const diff of diffResult.diffs) {
+    const node = specData.nodes[diff.nodeIndex]
+    if (!node) continue
+    if (diff.buildA?.isSelected && diff.buildA.isPurchased === false ||
+        diff.buildB?.isSelected && diff.buildB.isPurchased === false) {
+      granted.add(node.id)
+      continue
+    }
+
+    const stateA = getState(diff.buildA, node)
+    current.set(node.id, stateA)
+    target.set(node.id, getState(diff.buildB, node))
+    pointsBySection[sections.get(node.id) ?? 'class'] += getSpentPoints(node, true, stateA.ranks)
+  }
+
+  const isFullyRanked = (nodeId: number) => {
+    if (granted.has(nodeId)) return true
+    const node = specData.nodes[nodeIndexById.get(nodeId) ?? -1]
+    return !!node && (current.get(nodeId)?.ranks ?? 0) >= node.maxRanks
+  }
+  const isReachable = (nodeId: number) => {
+    const parents = parentIds.get(nodeId) ?? []
+    return parents.length === 0 || parents.some(isFullyRanked)
+  }
+
+  // Gates in front of each node
+  const gates = specData.gates ?? []
+  const gatesByNodeId = new Map<number, TalentGateData[]>()
+  for (const gate of gates) {
+    gate.nodeIds.forEach(nodeId => gatesByNodeId.set(nodeId, [...(gatesByNodeId.get(nodeId) ?? []), gate]))
+  }
+  const getGateSpent = (gate: TalentGateData, change?: { nodeId: number; ranks: number }) =>
+    getGateProgress(gate, specData, node =>
+      node.id === change?.nodeId ? change.ranks : (current.get(node.id)?.ranks ?? 0))
+  const isUnlocked = (nodeId: number) =>
+    (gatesByNodeId.get(nodeId) ?? []).every(gate => getGateSpent(gate) >= gate.requiredPoints)
+  const keepsGatesOpen = (nodeId: number, ranks: number) => gates.every(gate =>
+    getGateSpent(gate) < gate.requiredPoints ||
+    getGateSpent(gate, { nodeId, ranks }) >= gate.requiredPoints ||
+    !gate.nodeIds.some(id => (current.get(id)?.ranks ?? 0) > 0))
+
+  // Nodes still to change, in tree order (top to bottom, left to right)
+  const pending = [...target.keys()]
+    .filter(id => current.get(id)!.ranks !== target.get(id)!.ranks ||
+      current.get(id)!.choiceEntryIndex !== target.get(id)!.choiceEntryIndex)
+    .map(id => specData.nodes[nodeIndexById.get(id)!])
+    .filter(node => node.type !== 3)
+    .sort((a, b) => a.posY - b.posY || a.posX - b.posX)
+
+  const steps: RespecStep[] = []
+  const createStep = (type: RespecStepType, node: TalentNodeData, from: NodeState, to: NodeState): RespecStep => {
+    const entryIndex = type === 'refund' ? from.choiceEntryIndex : to.choiceEntryIndex
+    return {
+      type,
+      nodeIndex: nodeIndexById.get(node.id)!,
+      nodeId: node.id,
+      name: node.entries[entryIndex]?.name || `Node ${node.id}`,
+      section: sections.get(node.id) ?? 'class',
+      fromRanks: from.ranks,
+      toRanks: to.ranks,
+      ...(type === 'switch' ? { fromChoice: node.entries[from.choiceEntryIndex]?.name || `Option ${from.choiceEntryIndex + 1}` } : {}),
+    }
+  }
+
+  // Choice switches on nodes both builds take don't depend on anything else
+  for (const node of pending) {
+    const from = current.get(node.id)!
+    const to = target.get(node.id)!
+    if (from.ranks > 0 && to.ranks > 0 && from.choiceEntryIndex !== to.choiceEntryIndex) {
+      steps.push(createStep('switch', node, from, { ...from, choiceEntryIndex: to.choiceEntryIndex }))
+      current.set(node.id, { ...from, choiceEntryIndex: to.choiceEntryIndex })
+    }
+  }
+
+  // Apply one legal refund, or else one legal purchase, until nothing more can be done
+  const isDone = (node: TalentNodeData) => {
+    const state = current.get(node.id)!
+    const goal = target.get(node.id)!
+    return state.ranks === goal.ranks && state.choiceEntryIndex === goal.choiceEntryIndex
+  }
+  let remaining = pending.filter(node => !isDone(node))
+
+  while (remaining.length > 0) {
+    // Refund the deepest nodes first so their parents free up afterwards
+    const refund = [...remaining].reverse().find(node => {
+      const from = current.get(node.id)!
+      const to = target.get(node.id)!
+      const refundsAll = to.ranks === 0 || to.choiceEntryIndex !== from.choiceEntryIndex
+      if (from.ranks === 0 || (!refundsAll && from.ranks <= to.ranks)) return false
+      if (!keepsGatesOpen(node.id, refundsAll ? 0 : to.ranks)) return false
+
+      // Every selected child must keep another fully ranked parent
+      return (childIds.get(node.id) ?? []).every(childId => {
+        if (!granted.has(childId) && (current.get(childId)?.ranks ?? 0) === 0) return true
+        return (parentIds.get(childId) ?? []).some(parentId => parentId !== node.id && isFullyRanked(parentId))
+      })
+    })
+
+    if (refund) {
+      const from = current.get(refund.id)!
+      const to = target.get(refund.id)!
+      const next = to.ranks === 0 || to.choiceEntryIndex !== from.choiceEntryIndex
+        ? { ranks: 0, choiceEntryIndex: from.choiceEntryIndex }
+        : { ...from, ranks: to.ranks }
+      steps.push(createStep('refund', refund, from, next))
+      pointsBySection[sections.get(refund.id) ?? 'class'] -= from.ranks - next.ranks
+      current.set(refund.id, next)
+      remaining = remaining.filter(node => !isDone(node))
+      continue
+    }
+
+    const purchase = remaining.find(node => {
+      const from = current.get(node.id)!
+      const to = target.get(node.id)!
+      if (to.ranks <= from.ranks || (from.ranks > 0 && from.choiceEntryIndex !== to.choiceEntryIndex)) return false
+      const section = sections.get(node.id) ?? 'class'
+      return isReachable(node.id) && isUnlocked(node.id) && pointsBySection[section] + to.ranks - from.ranks <= pointLimits[section]
+    })
+
+    if (!purchase) break
+
+    const from = current.get(purchase.id)!
+    const to = target.get(purchase.id)!
+    steps.push(createStep('purchase', purchase, from, to))
+    pointsBySection[sections.get(purchase.id) ?? 'class'] += to.ranks - from.ranks
+    current.set(purchase.id, to)
+    remaining = remaining.filter(node => !isDone(node))
+  }
+
+  return {
+    steps,
+    blocked: remaining.map(node => nodeIndexById.get(node.id)!).sort((a, b) => a - b),
+  }
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest'
+import { createSimcProfilesets, formatSimcTalentOptions } from './simcExport'
+import { diffTalentBuilds } from './talentDiff'
+import { createBuild, createNode, createSelection, createSpecData, taken } from '../test/fixtures'
+
+const specData = createSpecData([
+  createNode(10, { posX: 1000, posY: 100, names: ['Class Talent'], maxRanks: 2 }),
+  createNode(20, { posX: 1600, posY: 100, names: ['Option A', 'Option B'] }),
+  createNode(30, { posX: 9000, posY: 100, names: ['Spec Talent'] }),
+  createNode(40, { posX: 5000, posY: 100, names: ['Hero Talent'] }),
+  createNode(50, { posX: 5000, posY: 100, names: ['', ''], type: 3 }),
+], {
+  heroTrees: [{ id: 42, name: 'Sentinel', nodeIds: [40] }],
+})
+
+const buildA = createBuild(254, [
+  taken(0, { isPartiallyRanked: true, ranksPurchased: 1 }),
+  taken(1, { isChoiceNode: true, choiceEntryIndex: 0 }),
+  taken(2),
+  createSelection(3, false),
+  createSelection(4, false),
+], 'Marksmanship Hunter')
+
+const buildB = createBuild(254, [
+  taken(0, { isPartiallyRanked: true, ranksPurchased: 1 }),
+  taken(1, { isChoiceNode: true, choiceEntryIndex: 1 }),
+  createSelection(2, false),
+  taken(3),
+  taken(4, { isChoiceNode: true, choiceEntryIndex: 0 }),
+], 'Marksmanship Hunter')
+
+describe('formatSimcTalentOptions', () => {
+  it('should list entry IDs and ranks per section', () => {
+    expect(formatSimcTalentOptions(buildA.nodes, specData)).toEqual([
+      'class_talents=100:1/200:1',
+      'spec_talents=300:1',
+      'hero_talents=',
+    ])
+  })
+
+  it('should skip granted and hero selector nodes', () => {
+    const build = createBuild(254, [
+      createSelection(0, true, { isPurchased: false }),
+      taken(3),
+      taken(4, { isChoiceNode: true, choiceEntryIndex: 0 }),
+    ])
+
+    expect(formatSimcTalentOptions(build.nodes, specData)).toEqual([
+      'class_talents=',
+      'spec_talents=',
+      'hero_talents=400:1',
+    ])
+  })
+})
+
+describe('createSimcProfilesets', () => {
+  const output = createSimcProfilesets(diffTalentBuilds(buildA, buildB), specData)
+
+  it('should use Build A as the base profile', () => {
+    expect(output.split('\n').slice(0, 4)).toEqual([
+      '# Build A',
+      'class_talents=100:1/200:1',
+      'spec_talents=300:1',
+      'hero_talents=',
+    ])
+  })
+
+  it('should add Build B as a profileset', () => {
+    expect(output).toContain([
+      'profileset."Build B"=class_talents=100:1/201:1',
+      'profileset."Build B"+=spec_talents=',
+      'profileset."Build B"+=hero_talents=400:1',
+    ].join('\n'))
+  })
+
+  it('should add one profileset per change, applied to Build A', () => {
+    expect(output).toContain('profileset."Option A -> Option B"=class_talents=100:1/201:1\nprofileset."Option A -> Option B"+=spec_talents=300:1')
+    expect(output).toContain('profileset."- Spec Talent"+=spec_talents=\n')
+    expect(output).toContain('profileset."+ Hero Talent"+=hero_talents=400:1')
+  })
+
+  it('should not add a profileset for hero selector changes', () => {
+    expect(output.match(/profileset\."[^"]*"=/g)).toHaveLength(4)
+  })
+})
+
+describe('createSimcProfilesets with a hero tree switch', () => {
+  const heroSpecData = createSpecData([
+    createNode(10, { posX: 1000, posY: 100, names: ['Class Talent'] }),
+    createNode(30, { posX: 9000, posY: 100, names: ['Spec Talent'] }),
+    createNode(40, { posX: 5000, posY: 100, names: ['Sentinel Talent'] }),
+    createNode(41, { posX: 5000, posY: 200, names: ['Sentinel Capstone'] }),
+    createNode(60, { posX: 5600, posY: 100, names: ['Dark Ranger Talent'] }),
+    createNode(50, { posX: 5300, posY: 50, names: ['', ''], type: 3 }),
+  ], {
+    heroTrees: [
+      { id: 42, name: 'Sentinel', nodeIds: [40, 41] },
+      { id: 44, name: 'Dark Ranger', nodeIds: [60] },
+    ],
+  })
+
+  const sentinel = createBuild(254, [taken(1), taken(2), taken(3), taken(5, { isChoiceNode: true, choiceEntryIndex: 0 })])
+  const darkRanger = createBuild(254, [taken(0), taken(1), taken(4), taken(5, { isChoiceNode: true, choiceEntryIndex: 1 })])
+  const output = createSimcProfilesets(diffTalentBuilds(sentinel, darkRanger, heroSpecData), heroSpecData)
+
+  it('should add one profileset for the whole switch', () => {
+    expect([...output.matchAll(/profileset\."([^"]*)"=/g)].map(match => match[1])).toEqual([
+      'Build B',
+      'Sentinel -> Dark Ranger',
+      '+ Class Talent',
+    ])
+    expect(output).toContain([
+      'profileset."Sentinel -> Dark Ranger"=class_talents=',
+      'profileset."Sentinel -> Dark Ranger"+=spec_talents=300:1',
+      'profileset."Sentinel -> Dark Ranger"+=hero_talents=600:1',
+    ].join('\n'))
+  })
+})
@@ -0,0 +1,161 @@
+import type { SpecTalentData } from '../data/types'
+import type { TalentNodeSelection } from './talentParser'
+import type { TalentDiffNode, TalentDiffResult } from './talentDiff'
+import { getNodeSections, type TreeSection } from './treeSections'
+
+/**
+ * SimulationCraft export of a comparison.
+ *
+ * Build A becomes the base profile, and Build B plus every individual change are
+ * profilesets on top of it, so one sim run reports what each change is worth:
+ *
+ *   class_talents=100543:1/...
+ *   spec_talents=...
+ *   hero_talents=...
+ *
+ *   profileset."Build B"=class_talents=...
+ *   profileset."Build B"+=spec_talents=...
+ *   profileset."Build B"+=hero_talents=...
+ */
+
+const SECTION_OPTIONS: Record<TreeSection, string> = {
+  class: 'class_talents',
+  spec: 'spec_talents',
+  hero: 'hero_talents',
+}
+
+/**
+ * Format a build as SimC class_talents/spec_talents/hero_talents options, listing
+ * each purchased entry as `<entry ID>:<rank>`. Granted nodes and hero tree selector
+ * nodes aren't listed; SimC applies them itself.
+ */
+export function formatSimcTalentOptions(nodes: Iterable<TalentNodeSelection>, specData: SpecTalentData): string[] {
+  const sections = getNodeSections(specData)
+  const lists: Record<TreeSection, string[]> = { class: [], spec: [], hero: [] }
+
+  for (const selection of nodes) {
+    if (!selection.isSelected || !selection.isPurchased) continue
+
+    const node = specData.nodes[selection.nodeIndex]
+    if (!node || node.type === 3) continue
+
+    const entry = selection.isChoiceNode ? node.entries[selection.choiceEntryIndex ?? 0] : node.entries[0]
+    if (!entry) continue
+
+    const ranks = selection.isPartiallyRanked
+      ? (selection.ranksPurchased ?? 0)
+      : (entry.maxRanks || node.maxRanks)
+    lists[sections.get(node.id) ?? 'class'].push(`${entry.id}:${ranks}`)
+  }
+
+  return (['class', 'spec', 'hero'] as const).map(section =>
+    `${SECTION_OPTIONS[section]}=${lists[section].join('/')}`
+  )
+}
+
+/**
+ * Create a SimC profile for a comparison: Build A's talents as the base, a profileset
+ * for Build B, and one profileset per added, removed or changed talent applied to
+ * Build A on its own. A switch between hero trees is one profileset for the whole
+ * switch, since a hero tree's talents can't be taken alongside the other's.
+ */
+export function createSimcProfilesets(diffResult: TalentDiffResult, specData: SpecTalentData): string {
+  const buildA = getSelections(diffResult, 'buildA')
+  const buildB = getSelections(diffResult, 'buildB')
+
+  const lines = [
+    '# Build A',
+    ...formatSimcTalentOptions(buildA.values(), specData),
+    '',
+    '# Build B',
+    ...formatProfileset('Build B', buildB.values(), specData),
+  ]
+
+  const { heroTreeChange } = diffResult
+  const heroTreeNodeIndices = new Set(heroTreeChange?.nodeIndices)
+  const changes: { description: string; diffs: TalentDiffNode[] }[] = diffResult.diffs
+    .filter(diff =>
+      diff.diffType !== 'unchanged' &&
+      specData.nodes[diff.nodeIndex]?.type !== 3 &&
+      !heroTreeNodeIndices.has(diff.nodeIndex)
+    )
+    .map(diff => ({ description: describeChange(diff, specData), diffs: [diff] }))
+  if (heroTreeChange) {
+    changes.unshift({
+      description: `${heroTreeChange.from.name} -> ${heroTreeChange.to.name}`.replace(/"/g, ''),
+      diffs: diffResult.diffs.filter(diff => heroTreeNodeIndices.has(diff.nodeIndex)),
+    })
+  }
+  if (changes.length > 0) {
+    lines.push('', '# Each change applied to Build A')
+  }
+
+  const usedNames = new Set<string>(['Build B'])
+  for (const { description, diffs } of changes) {
+    // Swap the change's nodes to their Build B state
+    const selections = new Map(buildA)
+    for (const diff of diffs) {
+      if (diff.buildB?.isSelected) {
+        selections.set(diff.nodeIndex, diff.buildB)
+      } else {
+        selections.delete(diff.nodeIndex)
+      }
+    }
+
+    let name = description
+    for (let i = 2; usedNames.has(name); i++) {
+      name = `${description} (${i})`
+    }
+    usedNames.add(name)
+
+    lines.push(...formatProfileset(name, selections.values(), specData))
+  }
+
+  return lines.join('\n')
+}
+
+// Selected nodes of one side of a comparison, keyed by node index
+function getSelections(diffResult: TalentDiffResult, side: 'buildA' | 'buildB'): Map<number, TalentNodeSelection> {
+  const selections = new Map<number, TalentNodeSelection>()
+  for (const diff of diffResult.diffs) {
+    const selection = diff[side]
+    if (selection?.isSelected) {
+      selections.set(diff.nodeIndex, selection)
+    }
+  }
+  return selections
+}
+
+function formatProfileset(name: string, nodes: Iterable<TalentNodeSelection>, specData: SpecTalentData): string[] {
+  return formatSimcTalentOptions(nodes, specData).map((option, i) =>
+    `profileset."${name}"${i === 0 ? '=' : '+='}${option}`
+  )
+}
+
+// Short profileset name for a change, e.g. "+ Kill Shot" or "Option A -> Option B"
+function describeChange(diff: TalentDiffNode, specData: SpecTalentData): string {
+  const node = specData.nodes[diff.nodeIndex]
+  const entryName = (index = 0) => node?.entries[index]?.name || `Node ${diff.nodeIndex}`
+  let description: string
+
+  if (diff.diffType === 'added') {
+    description = `+ ${entryName(diff.buildB?.choiceEntryIndex)}`
+  } else if (diff.diffType === 'removed') {
+    description = `- ${entryName(diff.buildA?.choiceEntryIndex)}`
+  } else {
+    const { rankChange, choiceChange } = diff.changeDetails ?? {}
+    const parts: string[] = []
+    if (choiceChange) {
+      parts.push(`${entryName(choiceChange.from)} -> ${entryName(choiceChange.to)}`)
+    } else {
+      parts.push(entryName(diff.buildB?.choiceEntryIndex))
+    }
+    if (rankChange) {
+      parts.push(`rank ${rankChange.from} -> ${rankChange.to}`)
+    }
+    description = parts.join(' ')
+  }
+
+  // Profileset names are quoted, so they can't contain quotes themselves
+  return description.replace(/"/g, '')
+}
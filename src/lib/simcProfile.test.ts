@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildFromSimcProfile,
+  compactSimcProfile,
+  findSimcSpec,
+  parseSimcProfile,
+  SimcProfileError,
+} from './simcProfile'
+import { parseTalentString, serializeTalentString } from './talentParser'
+import { formatSimcTalentOptions } from './simcExport'
+import { validateBuild } from './buildValidation'
+import { diffTalentBuilds } from './talentDiff'
+import type { SpecIndex, SpecTalentData } from '../data/types'
+import marksmanship from '../data/specs/12.0.1.65337/254.json'
+import { createNode, createSpecData } from '../test/fixtures'
+
+const specData = createSpecData([
+  createNode(10, { posX: 1000, posY: 100, names: ['Kill Shot'], maxRanks: 2 }),
+  createNode(20, { posX: 1000, posY: 100, names: ['Option A', 'Option B'] }),
+  createNode(30, { posX: 1000, posY: 100, names: ["Hunter's Mark"] }),
+])
+
+const specIndex: SpecIndex[] = [
+  { specId: 64, specName: 'Frost', className: 'Mage', nodeCount: 0 },
+  { specId: 251, specName: 'Frost', className: 'Death Knight', nodeCount: 0 },
+  { specId: 253, specName: 'Beast Mastery', className: 'Hunter', nodeCount: 0 },
+  { specId: 254, specName: 'Marksmanship', className: 'Hunter', nodeCount: 0 },
+]
+
+const PROFILE = `hunter="Some Hunter"
+level=80
+spec=marksmanship
+
+# Saved Loadout: AoE
+# class_talents=999:1
+
+class_talents=100:1
+spec_talents=201:1
+hero_talents=30:1
+head=,id=12345`
+
+describe('parseSimcProfile', () => {
+  it('should read class, spec and talent lists', () => {
+    const profile = parseSimcProfile(PROFILE)
+
+    expect(profile).toEqual({
+      className: 'hunter',
+      specName: 'marksmanship',
+      entries: [
+        { token: '100', rank: 1 },
+        { token: '201', rank: 1 },
+        { token: '30', rank: 1 },
+      ],
+    })
+  })
+
+  it('should read a talents= export string', () => {
+    const profile = parseSimcProfile('talents=C4PAAAAA')
+    expect(profile?.talents).toBe('C4PAAAAA')
+  })
+
+  it('should return null without talent options', () => {
+    expect(parseSimcProfile('C4PAAAAAAAAAAAAAAAAAAAAAAwCMww')).toBeNull()
+    expect(parseSimcProfile('hunter="Name"\nspec=marksmanship')).toBeNull()
+  })
+
+  it('should reject malformed list entries', () => {
+    expect(() => parseSimcProfile('class_talents=100:x')).toThrow(SimcProfileError)
+  })
+})
+
+describe('compactSimcProfile', () => {
+  it('should keep only the options the import reads', () => {
+    expect(compactSimcProfile(PROFILE)).toBe(
+      'hunter="Some Hunter" spec=marksmanship class_talents=100:1 spec_talents=201:1 hero_talents=30:1'
+    )
+  })
+
+  it('should parse to the same profile as the original', () => {
+    expect(parseSimcProfile(compactSimcProfile(PROFILE))).toEqual(parseSimcProfile(PROFILE))
+  })
+})
+
+describe('findSimcSpec', () => {
+  it('should match multi-word spec names', () => {
+    const spec = findSimcSpec({ className: 'hunter', specName: 'beast_mastery', entries: [] }, specIndex)
+    expect(spec?.specId).toBe(253)
+  })
+
+  it('should use the class to tell shared spec names apart', () => {
+    const spec = findSimcSpec({ className: 'deathknight', specName: 'frost', entries: [] }, specIndex)
+    expect(spec?.specId).toBe(251)
+  })
+
+  it('should not guess when the spec name is ambiguous', () => {
+    expect(findSimcSpec({ specName: 'frost', entries: [] }, specIndex)).toBeNull()
+  })
+})
+
+describe('buildFromSimcProfile', () => {
+  it('should select nodes by entry ID, with ranks and choices', () => {
+    const profile = parseSimcProfile('class_talents=100:1/201:1')!
+    const build = buildFromSimcProfile(profile, specData)
+
+    expect(build.specId).toBe(254)
+    expect(build.nodes).toEqual([
+      { nodeIndex: 0, isSelected: true, isPurchased: true, isPartiallyRanked: true, ranksPurchased: 1, isChoiceNode: false },
+      { nodeIndex: 1, isSelected: true, isPurchased: true, isPartiallyRanked: false, isChoiceNode: true, choiceEntryIndex: 1 },
+      { nodeIndex: 2, isSelected: false },
+    ])
+  })
+
+  it('should fall back to definition IDs and talent names', () => {
+    const profile = parseSimcProfile('class_talents=1000:2/hunters_mark:1')!
+    const build = buildFromSimcProfile(profile, specData)
+
+    expect(build.nodes[0]).toMatchObject({ isSelected: true, isPartiallyRanked: false })
+    expect(build.nodes[2]).toMatchObject({ isSelected: true })
+  })
+
+  it('should produce a build that serializes like an in-game export', () => {
+    const profile = parseSimcProfile('class_talents=100:2/200:1/300:1')!
+    const build = buildFromSimcProfile(profile, specData)
+
+    const reparsed = parseTalentString(serializeTalentString(build), { nodeCount: 3 })
+    expect(reparsed.nodes).toEqual(build.nodes)
+  })
+
+  it('should select the hero tree and the granted roots in front of the entries', () => {
+    // Class tree 1 -> 2, hero tree 3 -> 4 picked by selector 5, and hero tree 6
+    const heroSpecData = createSpecData([
+      createNode(1, { posX: 1000, posY: 100 }),
+      createNode(2, { posX: 1000, posY: 200 }),
+      createNode(3, { posX: 5000, posY: 100 }),
+      createNode(4, { posX: 5000, posY: 200 }),
+      createNode(5, { posX: 5000, posY: 50, names: ['', ''], type: 3 }),
+      createNode(6, { posX: 6000, posY: 100 }),
+    ], {
+      edges: [
+        { fromNodeId: 1, toNodeId: 2, type: 2 },
+        { fromNodeId: 3, toNodeId: 4, type: 2 },
+      ],
+      heroTrees: [
+        { id: 42, name: 'Sentinel', nodeIds: [3, 4] },
+        { id: 43, name: 'Dark Ranger', nodeIds: [6] },
+      ],
+    })
+
+    const build = buildFromSimcProfile(parseSimcProfile('class_talents=20:1 hero_talents=40:1')!, heroSpecData)
+
+    expect(build.nodes).toEqual([
+      { nodeIndex: 0, isSelected: true, isPurchased: false },
+      { nodeIndex: 1, isSelected: true, isPurchased: true, isPartiallyRanked: false, isChoiceNode: false },
+      { nodeIndex: 2, isSelected: true, isPurchased: false },
+      { nodeIndex: 3, isSelected: true, isPurchased: true, isPartiallyRanked: false, isChoiceNode: false },
+      { nodeIndex: 4, isSelected: true, isPurchased: true, isPartiallyRanked: false, isChoiceNode: true, choiceEntryIndex: 0 },
+      { nodeIndex: 5, isSelected: false },
+    ])
+  })
+
+  it('should round-trip an in-game export through its SimC talent options', () => {
+    const specData = marksmanship as SpecTalentData
+    const exported = parseTalentString('C4PAAAAAAAAAAAAAAAAAAAAAAwCMwwohBwMYDAAAAAAAAYGzYGmxMzYGMmmxYGz22mZmZYmZYmZZwsMYGAAAzMGAMTbMMAbD')
+
+    const profile = parseSimcProfile(formatSimcTalentOptions(exported.nodes, specData).join('\n'))!
+    const imported = buildFromSimcProfile(profile, specData)
+
+    expect(validateBuild(imported, specData)).toEqual([])
+    expect(diffTalentBuilds(exported, imported).diffs.filter(d => d.diffType !== 'unchanged')).toEqual([])
+  })
+
+  it('should report entries that are not in the tree', () => {
+    const profile = parseSimcProfile('class_talents=555:1')!
+    expect(() => buildFromSimcProfile(profile, specData)).toThrow(/Talent 555 is not in the Marksmanship Hunter tree/)
+  })
+
+  it('should report two entries on the same node', () => {
+    const profile = parseSimcProfile('class_talents=200:1/201:1')!
+    expect(() => buildFromSimcProfile(profile, specData)).toThrow(/selected more than once/)
+  })
+})
@@ -0,0 +1,246 @@
+import type { SpecIndex, SpecTalentData, TalentEntryData } from '../data/types'
+import type { ParsedTalentData, TalentNodeSelection } from './talentParser'
+import { getHeroTreeChoice, getSelectedHeroTree } from './heroTreeDetection'
+
+/**
+ * SimulationCraft profile import.
+ *
+ * SimC profiles describe a build either as an export string (`talents=...`) or as
+ * lists of trait entries per tree:
+ *
+ *   hunter="Name"
+ *   spec=marksmanship
+ *   class_talents=100543:1/100601:2
+ *   spec_talents=...
+ *   hero_talents=...
+ *
+ * Each list item is `<entry>:<rank>`, where the entry is a trait entry ID (or, in
+ * hand-written profiles, a definition ID or tokenized talent name like `aimed_shot`).
+ */
+
+export interface SimcTalentEntry {
+  token: string // Entry ID, definition ID or talent name token
+  rank: number
+}
+
+export interface SimcProfile {
+  className?: string // Class token, e.g. "deathknight"
+  specName?: string // Spec token, e.g. "beast_mastery"
+  talents?: string // Talent export string from `talents=`
+  entries: SimcTalentEntry[] // Combined class, spec and hero lists
+}
+
+export class SimcProfileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SimcProfileError'
+  }
+}
+
+// Class option names, as they appear on the first line of a profile
+const SIMC_CLASSES = [
+  'deathknight',
+  'demonhunter',
+  'druid',
+  'evoker',
+  'hunter',
+  'mage',
+  'monk',
+  'paladin',
+  'priest',
+  'rogue',
+  'shaman',
+  'warlock',
+  'warrior',
+]
+
+const TALENT_LIST_KEYS = ['class_talents', 'spec_talents', 'hero_talents']
+
+// Matches `key=value` options, where the value may be quoted
+const OPTION_PATTERN = /([a-z_]+)=("[^"]*"|\S*)/g
+
+// Compare names the way SimC tokenizes them: case, spaces and punctuation don't matter
+function normalizeToken(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+// Yield each `key=value` option outside commented lines (saved loadouts in addon exports)
+function* readOptions(text: string): Generator<[key: string, rawValue: string]> {
+  for (const line of text.split(/\r?\n/)) {
+    if (line.trim().startsWith('#')) continue
+
+    for (const [, key, rawValue] of line.matchAll(OPTION_PATTERN)) {
+      yield [key, rawValue]
+    }
+  }
+}
+
+/**
+ * Read the class, spec and talent options out of a SimC profile, or the relevant
+ * lines alone. Returns null if the text has no talent options.
+ */
+export function parseSimcProfile(text: string): SimcProfile | null {
+  const profile: SimcProfile = { entries: [] }
+  let hasTalents = false
+
+  for (const [key, rawValue] of readOptions(text)) {
+    const value = rawValue.replace(/^"|"$/g, '')
+
+    if (SIMC_CLASSES.includes(key)) {
+      profile.className = key
+    } else if (key === 'spec') {
+      profile.specName = value
+    } else if (key === 'talents') {
+      profile.talents = value
+      hasTalents = true
+    } else if (TALENT_LIST_KEYS.includes(key)) {
+      profile.entries.push(...parseTalentList(key, value))
+      hasTalents = true
+    }
+  }
+
+  return hasTalents ? profile : null
+}
+
+/**
+ * Reduce a full profile to the options the import reads, on a single line.
+ * Gear, consumables and comments are dropped.
+ */
+export function compactSimcProfile(text: string): string {
+  const relevantKeys = [...SIMC_CLASSES, 'spec', 'talents', ...TALENT_LIST_KEYS]
+  return [...readOptions(text)]
+    .filter(([key]) => relevantKeys.includes(key))
+    .map(([key, rawValue]) => `${key}=${rawValue}`)
+    .join(' ')
+}
+
+function parseTalentList(key: string, value: string): SimcTalentEntry[] {
+  return value.split('/').filter(item => item.length > 0).map(item => {
+    const [token, rank = '1'] = item.split(':')
+    const parsedRank = Number(rank)
+    if (!token || !Number.isInteger(parsedRank) || parsedRank < 1) {
+      throw new SimcProfileError(`Invalid ${key} entry: ${item}`)
+    }
+    return { token, rank: parsedRank }
+  })
+}
+
+/**
+ * Find the spec a profile's class and spec options refer to.
+ * The class is only needed when the spec name is shared, e.g. Frost or Holy.
+ */
+export function findSimcSpec(profile: SimcProfile, specIndex: SpecIndex[]): SpecIndex | null {
+  if (!profile.specName) return null
+
+  const specToken = normalizeToken(profile.specName)
+  const matches = specIndex.filter(spec =>
+    normalizeToken(spec.specName) === specToken &&
+    (!profile.className || normalizeToken(spec.className) === profile.className)
+  )
+
+  return matches.length === 1 ? matches[0] : null
+}
+
+/**
+ * Build parsed talent data from a profile's talent lists, as if it had been decoded
+ * from an export string for the given spec. The tree hash is left empty, which the
+ * game accepts.
+ *
+ * SimC lists only purchased entries, so the free selections an export string has are
+ * put back: the hero tree selector picks the hero tree the entries are in, and roots
+ * (nodes without prerequisites) in front of selected nodes are granted.
+ *
+ * Throws SimcProfileError if an entry doesn't exist in the spec's tree or two entries
+ * select the same node.
+ */
+export function buildFromSimcProfile(profile: SimcProfile, specData: SpecTalentData): ParsedTalentData {
+  const selections = new Map<number, TalentNodeSelection>()
+
+  for (const { token, rank } of profile.entries) {
+    const match = findEntry(specData, token)
+    if (!match) {
+      throw new SimcProfileError(`Talent ${token} is not in the ${specData.specName} ${specData.className} tree`)
+    }
+
+    const { nodeIndex, entryIndex } = match
+    const node = specData.nodes[nodeIndex]
+    if (selections.has(nodeIndex)) {
+      throw new SimcProfileError(`${node.entries[entryIndex].name || token} is selected more than once`)
+    }
+
+    const maxRanks = node.entries[entryIndex].maxRanks || node.maxRanks
+    const ranks = Math.min(rank, maxRanks)
+    const isChoiceNode = node.entries.length > 1
+
+    selections.set(nodeIndex, {
+      nodeIndex,
+      isSelected: true,
+      isPurchased: true,
+      isPartiallyRanked: ranks < maxRanks,
+      ...(ranks < maxRanks ? { ranksPurchased: ranks } : {}),
+      isChoiceNode,
+      ...(isChoiceNode ? { choiceEntryIndex: entryIndex } : {}),
+    })
+  }
+
+  addFreeSelections(specData, selections)
+
+  return {
+    version: 2,
+    specId: specData.specId,
+    specName: `${specData.specName} ${specData.className}`,
+    treeHash: '0'.repeat(32),
+    nodes: specData.nodes.map((_, nodeIndex) =>
+      selections.get(nodeIndex) ?? { nodeIndex, isSelected: false }
+    ),
+    rawBytes: [],
+  }
+}
+
+// Select the hero tree selector's choice and the granted roots for the purchased nodes
+function addFreeSelections(specData: SpecTalentData, selections: Map<number, TalentNodeSelection>): void {
+  const heroTree = getSelectedHeroTree(specData, [...selections.values()])
+  const choice = heroTree && getHeroTreeChoice(specData, heroTree)
+  if (choice) {
+    selections.set(choice.nodeIndex, {
+      nodeIndex: choice.nodeIndex,
+      isSelected: true,
+      isPurchased: true,
+      isPartiallyRanked: false,
+      isChoiceNode: true,
+      choiceEntryIndex: choice.choiceEntryIndex,
+    })
+  }
+
+  const nodeIndexById = new Map(specData.nodes.map((node, index) => [node.id, index]))
+  const childNodeIds = new Set(specData.edges.map(edge => edge.toNodeId))
+  for (const edge of specData.edges) {
+    const parentIndex = nodeIndexById.get(edge.fromNodeId)
+    const childIndex = nodeIndexById.get(edge.toNodeId)
+    if (parentIndex === undefined || childIndex === undefined || childNodeIds.has(edge.fromNodeId)) continue
+    if (!selections.has(parentIndex) && selections.has(childIndex)) {
+      selections.set(parentIndex, { nodeIndex: parentIndex, isSelected: true, isPurchased: false })
+    }
+  }
+}
+
+// Locate an entry by entry ID, then definition ID, then talent name
+function findEntry(specData: SpecTalentData, token: string): { nodeIndex: number; entryIndex: number } | null {
+  const numericId = /^\d+$/.test(token) ? Number(token) : null
+  const nameToken = normalizeToken(token)
+
+  const matchers: ((entry: TalentEntryData) => boolean)[] = numericId !== null
+    ? [entry => entry.id === numericId, entry => entry.definitionId === numericId]
+    : [entry => entry.name !== '' && normalizeToken(entry.name) === nameToken]
+
+  for (const matches of matchers) {
+    for (let nodeIndex = 0; nodeIndex < specData.nodes.length; nodeIndex++) {
+      const entryIndex = specData.nodes[nodeIndex].entries.findIndex(matches)
+      if (entryIndex !== -1) {
+        return { nodeIndex, entryIndex }
+      }
+    }
+  }
+
+  return null
+}
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest'
-import { diffTalentBuilds, createDiffMap } from './talentDiff'
+import { diffTalentBuilds, diffResolvedBuilds, createDiffMap } from './talentDiff'
 import type { ParsedTalentData, TalentNodeSelection } from './talentParser'
+import type { SpecTalentData, TalentNodeData } from '../data/types'
 
 // Helper to create a minimal ParsedTalentData
 function createBuild(
@@ -236,6 +237,30 @@ describe('talentDiff', () => {
       expect(result.summary.added).toEqual([1, 2])
     })
 
+    it('should not report a node only one build has granted', () => {
+      const buildA = createBuild(254, [createNode(0, true, { isPurchased: false })])
+      const buildB = createBuild(254, [createNode(0, false)])
+
+      const result = diffTalentBuilds(buildA, buildB)
+
+      expect(result.summary.removed).toEqual([])
+      expect(result.diffs[0].diffType).toBe('unchanged')
+    })
+
+    it('should not compare the ranks of granted nodes', () => {
+      const buildA = createBuild(254, [createNode(0, true, { isPurchased: false })])
+      const buildB = createBuild(254, [createNode(0, true, { isPurchased: true, isPartiallyRanked: true, ranksPurchased: 1 })])
+
+      expect(diffTalentBuilds(buildA, buildB).summary.changed).toEqual([])
+    })
+
+    it('should still report a purchased node the other build lacks', () => {
+      const buildA = createBuild(254, [createNode(0, false)])
+      const buildB = createBuild(254, [createNode(0, true, { isPurchased: true })])
+
+      expect(diffTalentBuilds(buildA, buildB).summary.added).toEqual([0])
+    })
+
     it('should preserve specId and specName in result', () => {
       const buildA = createBuild(254, [], 'Marksmanship Hunter')
       const buildB = createBuild(254, [], 'Marksmanship Hunter')
@@ -264,6 +289,63 @@ describe('talentDiff', () => {
     })
   })
 
+  describe('hero tree changes', () => {
+    // Helper to create a tree node with a single entry
+    function createTreeNode(id: number, type = 0): TalentNodeData {
+      return {
+        id,
+        posX: 5000,
+        posY: 100,
+        type,
+        maxRanks: 1,
+        entries: [{ id: id * 10, definitionId: id * 100, spellId: 0, name: `Talent ${id}`, iconId: 0, maxRanks: 1, entryIndex: 0 }],
+      }
+    }
+
+    const specData: SpecTalentData = {
+      specId: 254,
+      specName: 'Marksmanship',
+      className: 'Hunter',
+      treeId: 1,
+      nodes: [createTreeNode(1), createTreeNode(2), createTreeNode(3), createTreeNode(4), createTreeNode(9, 3)],
+      edges: [],
+      heroTrees: [
+        { id: 42, name: 'Sentinel', nodeIds: [2, 3] },
+        { id: 43, name: 'Dark Ranger', nodeIds: [4] },
+      ],
+    }
+
+    const taken = (nodeIndex: number) => createNode(nodeIndex, true, { isPurchased: true })
+
+    it('should report a switch between hero trees', () => {
+      const buildA = createBuild(254, [taken(0), taken(1), taken(2), createNode(4, true, { isChoiceNode: true, choiceEntryIndex: 0 })])
+      const buildB = createBuild(254, [taken(3), createNode(4, true, { isChoiceNode: true, choiceEntryIndex: 1 })])
+
+      const result = diffTalentBuilds(buildA, buildB, specData)
+
+      expect(result.heroTreeChange?.from.name).toBe('Sentinel')
+      expect(result.heroTreeChange?.to.name).toBe('Dark Ranger')
+      // The class talent removal isn't part of the switch
+      expect(result.heroTreeChange?.nodeIndices).toEqual([1, 2, 3, 4])
+      expect(result.summary.removed).toEqual([0, 1, 2])
+    })
+
+    it('should not report a switch when both builds use the same hero tree', () => {
+      const result = diffTalentBuilds(createBuild(254, [taken(1)]), createBuild(254, [taken(1), taken(2)]), specData)
+      expect(result.heroTreeChange).toBeUndefined()
+    })
+
+    it('should not report a switch when only one build has a hero tree', () => {
+      const result = diffTalentBuilds(createBuild(254, []), createBuild(254, [taken(3)]), specData)
+      expect(result.heroTreeChange).toBeUndefined()
+    })
+
+    it('should not report a switch without spec data', () => {
+      const result = diffTalentBuilds(createBuild(254, [taken(1)]), createBuild(254, [taken(3)]))
+      expect(result.heroTreeChange).toBeUndefined()
+    })
+  })
+
   describe('createDiffMap', () => {
     it('should create a map for O(1) lookup by node index', () => {
       const buildA = createBuild(254, [
@@ -286,4 +368,120 @@ describe('talentDiff', () => {
       expect(diffMap.get(99)).toBeUndefined()
     })
   })
+
+  describe('diffResolvedBuilds', () => {
+    // Helper to create a tree node whose entries have definition IDs id * 100 + i
+    function createTreeNode(id: number, posX: number, names: string[], maxRanks = 1): TalentNodeData {
+      return {
+        id,
+        posX,
+        posY: 100,
+        type: names.length > 1 ? 2 : 0,
+        maxRanks,
+        entries: names.map((name, i) => ({
+          id: id * 10 + i,
+          definitionId: id * 100 + i,
+          spellId: 0,
+          name,
+          iconId: 0,
+          maxRanks,
+          entryIndex: i,
+        })),
+      }
+    }
+
+    function createSpecData(nodes: TalentNodeData[]): SpecTalentData {
+      return { specId: 254, specName: 'Marksmanship', className: 'Hunter', treeId: 1, nodes, edges: [] }
+    }
+
+    const specData = createSpecData([
+      createTreeNode(10, 1000, ['Ranked'], 2),
+      createTreeNode(20, 1600, ['Option A', 'Option B']),
+      createTreeNode(30, 9000, ['Spec Talent']),
+      createTreeNode(40, 9600, ['Other Talent']),
+    ])
+
+    it('should key entries by node ID with name, section and chosen entry', () => {
+      const buildA = createBuild(254, [
+        createNode(0, true, { isPurchased: true, isPartiallyRanked: true, ranksPurchased: 1 }),
+        createNode(1, true, { isPurchased: true, isChoiceNode: true, choiceEntryIndex: 0 }),
+        createNode(2, true, { isPurchased: true }),
+      ])
+      const buildB = createBuild(254, [
+        createNode(0, true, { isPurchased: true }),
+        createNode(1, true, { isPurchased: true, isChoiceNode: true, choiceEntryIndex: 1 }),
+        createNode(3, true, { isPurchased: true }),
+      ])
+
+      const result = diffResolvedBuilds(buildA, specData, buildB, specData)
+
+      expect(result.summary).toEqual({ added: [40], removed: [30], changed: [10, 20] })
+      expect(result.diffs.find(d => d.nodeId === 10)).toMatchObject({
+        name: 'Ranked',
+        section: 'class',
+        ranksA: 1,
+        ranksB: 2,
+        changeDetails: { rankChange: { from: 1, to: 2 } },
+      })
+      expect(result.diffs.find(d => d.nodeId === 20)).toMatchObject({
+        name: 'Option B',
+        entryA: { name: 'Option A' },
+        entryB: { name: 'Option B' },
+        changeDetails: { choiceChange: { from: 2000, to: 2001 } },
+      })
+      expect(result.diffs.find(d => d.nodeId === 30)).toMatchObject({ section: 'spec', diffType: 'removed', entryB: null })
+    })
+
+    it('should not report granted nodes or compare their ranks', () => {
+      const buildA = createBuild(254, [
+        createNode(0, true, { isPurchased: false, isPartiallyRanked: true, ranksPurchased: 1 }),
+        createNode(2, true, { isPurchased: false }),
+      ])
+      const buildB = createBuild(254, [
+        createNode(0, true, { isPurchased: true }),
+        createNode(3, true, { isPurchased: false }),
+      ])
+
+      const result = diffResolvedBuilds(buildA, specData, buildB, specData)
+
+      expect(result.summary).toEqual({ added: [], removed: [], changed: [] })
+      expect(result.diffs.map(d => [d.nodeId, d.diffType])).toEqual([
+        [10, 'unchanged'],
+        [30, 'unchanged'],
+        [40, 'unchanged'],
+      ])
+    })
+
+    it('should match nodes by ID across differently ordered trees', () => {
+      const reordered = createSpecData([specData.nodes[2], specData.nodes[0], specData.nodes[1], specData.nodes[3]])
+      const buildA = createBuild(254, [createNode(2, true, { isPurchased: true })])
+      const buildB = createBuild(254, [createNode(0, true, { isPurchased: true })])
+
+      const result = diffResolvedBuilds(buildA, specData, buildB, reordered)
+
+      expect(result.diffs).toHaveLength(1)
+      expect(result.diffs[0]).toMatchObject({ nodeId: 30, diffType: 'unchanged' })
+    })
+
+    it('should follow a talent that moved to another node', () => {
+      const moved = createTreeNode(50, 9000, ['Spec Talent'])
+      moved.entries[0].definitionId = 3000
+      const newSpecData = createSpecData([specData.nodes[0], specData.nodes[1], moved, specData.nodes[3]])
+
+      const buildA = createBuild(254, [createNode(2, true, { isPurchased: true })])
+      const buildB = createBuild(254, [createNode(2, true, { isPurchased: true })])
+
+      const result = diffResolvedBuilds(buildA, specData, buildB, newSpecData)
+
+      expect(result.diffs).toEqual([
+        expect.objectContaining({ nodeId: 50, fromNodeId: 30, diffType: 'unchanged' }),
+      ])
+    })
+
+    it('should throw error when comparing different specs', () => {
+      expect(() => diffResolvedBuilds(createBuild(254, []), specData, createBuild(253, []), specData)).toThrow(
+        /Cannot compare different specs/
+      )
+    })
+  })
 })
@@ -1,4 +1,8 @@
-import type { ParsedTalentData, TalentNodeSelection } from './talentParser'
+import type { HeroTreeData, SpecTalentData, TalentEntryData } from '../data/types'
+import { isGrantedNode, type ParsedTalentData, type TalentNodeSelection } from './talentParser'
+import { resolveBuild, type ResolvedTalent } from './buildResolver'
+import { getSelectedHeroTree } from './heroTreeDetection'
+import type { TreeSection } from './treeSections'
 
 export type DiffType = 'added' | 'removed' | 'changed' | 'unchanged'
 
@@ -13,6 +17,12 @@ export interface TalentDiffNode {
   }
 }
 
+export interface HeroTreeChange {
+  from: HeroTreeData
+  to: HeroTreeData
+  nodeIndices: number[] // Changed hero and selector nodes that follow from the switch
+}
+
 export interface TalentDiffResult {
   specId: number
   specName?: string
@@ -22,6 +32,7 @@ export interface TalentDiffResult {
     removed: number[]
     changed: number[]
   }
+  heroTreeChange?: HeroTreeChange // Set when the builds use different hero trees
 }
 
 /**
@@ -30,10 +41,17 @@ export interface TalentDiffResult {
  * - Added: selected in B but not in A
  * - Removed: selected in A but not in B
  * - Changed: selected in both but with different rank or choice
+ *
+ * Granted nodes aren't the player's choice: a node that only one build has, granted,
+ * counts as unchanged, and a granted node's ranks aren't compared.
+ *
+ * With the spec's data, a switch between hero trees is also reported as a single
+ * heroTreeChange, listing the per-node changes it accounts for.
  */
 export function diffTalentBuilds(
   buildA: ParsedTalentData,
-  buildB: ParsedTalentData
+  buildB: ParsedTalentData,
+  specData?: SpecTalentData
 ): TalentDiffResult {
   // Validate specs match
   if (buildA.specId !== buildB.specId) {
@@ -72,8 +90,17 @@ export function diffTalentBuilds(
 
     const selectedA = nodeA?.isSelected ?? false
     const selectedB = nodeB?.isSelected ?? false
+    const onlyGranted = (selectedA && isGrantedNode(nodeA!) && !selectedB) ||
+      (selectedB && isGrantedNode(nodeB!) && !selectedA)
 
-    if (selectedB && !selectedA) {
+    if (onlyGranted) {
+      diffs.push({
+        nodeIndex,
+        diffType: 'unchanged',
+        buildA: nodeA,
+        buildB: nodeB,
+      })
+    } else if (selectedB && !selectedA) {
       // Added in B
       diffs.push({
         nodeIndex,
@@ -120,14 +147,39 @@ export function diffTalentBuilds(
   summary.removed.sort((a, b) => a - b)
   summary.changed.sort((a, b) => a - b)
 
+  const heroTreeChange = specData ? getHeroTreeChange(buildA, buildB, specData, summary) : null
+
   return {
     specId: buildA.specId,
     specName: buildA.specName,
     diffs,
     summary,
+    ...(heroTreeChange ? { heroTreeChange } : {}),
   }
 }
 
+// Detect a switch between hero trees and collect the node changes that come with it
+function getHeroTreeChange(
+  buildA: ParsedTalentData,
+  buildB: ParsedTalentData,
+  specData: SpecTalentData,
+  summary: TalentDiffResult['summary']
+): HeroTreeChange | null {
+  const from = getSelectedHeroTree(specData, buildA.nodes)
+  const to = getSelectedHeroTree(specData, buildB.nodes)
+  if (!from || !to || from.id === to.id) return null
+
+  const switchedNodeIds = new Set([...from.nodeIds, ...to.nodeIds])
+  const nodeIndices = [...summary.added, ...summary.removed, ...summary.changed]
+    .filter(nodeIndex => {
+      const node = specData.nodes[nodeIndex]
+      return node && (node.type === 3 || switchedNodeIds.has(node.id))
+    })
+    .sort((a, b) => a - b)
+
+  return { from, to, nodeIndices }
+}
+
 /**
  * Check if two selected nodes have different configurations.
  * Returns change details if different, null if identical.
@@ -139,8 +191,9 @@ function getChangeDetails(
   const changes: TalentDiffNode['changeDetails'] = {}
   let hasChanges = false
 
-  // Compare ranks if at least one is partially ranked
-  if (nodeA.isPartiallyRanked || nodeB.isPartiallyRanked) {
+  // Compare ranks if at least one is partially ranked; granted nodes always have every rank
+  const isGranted = isGrantedNode(nodeA) || isGrantedNode(nodeB)
+  if (!isGranted && (nodeA.isPartiallyRanked || nodeB.isPartiallyRanked)) {
     const effectiveRankA = nodeA.ranksPurchased ?? (nodeA.isPartiallyRanked ? 1 : 0)
     const effectiveRankB = nodeB.ranksPurchased ?? (nodeB.isPartiallyRanked ? 1 : 0)
 
@@ -174,3 +227,150 @@ export function createDiffMap(diffResult: TalentDiffResult): Map<number, TalentD
   }
   return map
 }
+
+export interface ResolvedDiffEntry {
+  nodeId: number // Node in Build B's tree, or Build A's for removed talents
+  fromNodeId?: number // Build A's node, when the talent moved to another node
+  name: string
+  section: TreeSection
+  diffType: DiffType
+  entryA: TalentEntryData | null // Chosen entry in Build A, null if not taken or unknown
+  entryB: TalentEntryData | null
+  ranksA: number // 0 if not taken
+  ranksB: number
+  changeDetails?: {
+    rankChange?: { from: number; to: number }
+    choiceChange?: { from: number; to: number } // Definition IDs of the chosen entries
+  }
+}
+
+export interface ResolvedDiffResult {
+  specId: number
+  specName?: string
+  diffs: ResolvedDiffEntry[] // Sorted by node ID
+  summary: {
+    added: number[] // Node IDs
+    removed: number[]
+    changed: number[]
+  }
+}
+
+/**
+ * Compare two builds by node ID and entry definition ID rather than by position.
+ *
+ * Each build is resolved against its own spec data, so the builds may come from
+ * different data snapshots. A talent that moved to another node between snapshots
+ * is matched by its definition ID and reported once, with fromNodeId set. Every
+ * entry carries its name, section and chosen entries, so the result can be stored
+ * or shared without the spec data.
+ *
+ * Granted nodes follow the same rules as in diffTalentBuilds: a node that only one
+ * build has, granted, counts as unchanged, and a granted node's ranks aren't compared.
+ */
+export function diffResolvedBuilds(
+  buildA: ParsedTalentData,
+  specDataA: SpecTalentData,
+  buildB: ParsedTalentData,
+  specDataB: SpecTalentData
+): ResolvedDiffResult {
+  if (buildA.specId !== buildB.specId) {
+    throw new Error(
+      `Cannot compare different specs: ${buildA.specName || buildA.specId} vs ${buildB.specName || buildB.specId}`
+    )
+  }
+
+  const resolvedA = resolveBuild(buildA, specDataA)
+  const resolvedB = resolveBuild(buildB, specDataB)
+  const nodeIdsB = new Set(specDataB.nodes.map(node => node.id))
+
+  // Pair Build A's talents with Build B's, by node ID or else by definition ID
+  const pairs: { a?: ResolvedTalent; b?: ResolvedTalent }[] = []
+  const pairedB = new Set<number>()
+  const unmatchedA: ResolvedTalent[] = []
+
+  for (const talentA of resolvedA.talents) {
+    const talentB = resolvedB.byNodeId.get(talentA.nodeId)
+    if (talentB) {
+      pairs.push({ a: talentA, b: talentB })
+      pairedB.add(talentB.nodeId)
+    } else {
+      unmatchedA.push(talentA)
+    }
+  }
+
+  for (const talentA of unmatchedA) {
+    const definitionId = talentA.entry?.definitionId
+    // Only follow talents whose old node is gone from Build B's tree
+    const talentB = definitionId !== undefined && !nodeIdsB.has(talentA.nodeId)
+      ? resolvedB.talents.find(t => !pairedB.has(t.nodeId) && t.entry?.definitionId === definitionId)
+      : undefined
+    if (talentB) {
+      pairedB.add(talentB.nodeId)
+    }
+    pairs.push({ a: talentA, b: talentB })
+  }
+
+  for (const talentB of resolvedB.talents) {
+    if (!pairedB.has(talentB.nodeId)) {
+      pairs.push({ b: talentB })
+    }
+  }
+
+  const diffs = pairs.map(({ a, b }) => createResolvedEntry(a, b, specDataA, specDataB))
+  diffs.sort((x, y) => x.nodeId - y.nodeId)
+
+  const summary = {
+    added: diffs.filter(d => d.diffType === 'added').map(d => d.nodeId),
+    removed: diffs.filter(d => d.diffType === 'removed').map(d => d.nodeId),
+    changed: diffs.filter(d => d.diffType === 'changed').map(d => d.nodeId),
+  }
+
+  return {
+    specId: buildB.specId,
+    specName: buildB.specName,
+    diffs,
+    summary,
+  }
+}
+
+function createResolvedEntry(
+  a: ResolvedTalent | undefined,
+  b: ResolvedTalent | undefined,
+  specDataA: SpecTalentData,
+  specDataB: SpecTalentData
+): ResolvedDiffEntry {
+  const talent = (b ?? a)!
+  const specData = b ? specDataB : specDataA
+  const node = specData.nodes[talent.nodeIndex]
+  const onlyGranted = !a !== !b && !talent.isPurchased
+
+  const entry: ResolvedDiffEntry = {
+    nodeId: talent.nodeId,
+    ...(a && b && a.nodeId !== b.nodeId ? { fromNodeId: a.nodeId } : {}),
+    name: talent.entry?.name || node?.entries[0]?.name || `Node ${talent.nodeId}`,
+    section: talent.section,
+    diffType: onlyGranted ? 'unchanged' : !a ? 'added' : !b ? 'removed' : 'unchanged',
+    entryA: a?.entry ?? null,
+    entryB: b?.entry ?? null,
+    ranksA: a?.ranks ?? 0,
+    ranksB: b?.ranks ?? 0,
+  }
+
+  if (a && b) {
+    const changeDetails: NonNullable<ResolvedDiffEntry['changeDetails']> = {}
+    // Granted nodes always have every rank
+    const isGranted = !a.isPurchased || !b.isPurchased
+    if (!isGranted && a.ranks !== b.ranks) {
+      changeDetails.rankChange = { from: a.ranks, to: b.ranks }
+    }
+    if (a.isChoiceNode && b.isChoiceNode && a.entry && b.entry && a.entry.definitionId !== b.entry.definitionId) {
+      changeDetails.choiceChange = { from: a.entry.definitionId, to: b.entry.definitionId }
+    }
+    if (changeDetails.rankChange || changeDetails.choiceChange) {
+      entry.diffType = 'changed'
+      entry.changeDetails = changeDetails
+    }
+  }
+
+  return entry
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { getGateProgress, getGateStatuses } from './talentGates'
+import { parseTalentString } from './talentParser'
+import { validateBuild } from './buildValidation'
+import type { SpecTalentData } from '../data/types'
+import marksmanship from '../data/specs/12.0.1.65337/254.json'
+import { createNode, createSpecData, taken } from '../test/fixtures'
+
+// Class nodes 1-3 (currency 1, node 3 behind a 3-point gate), a spec node (currency 2) and a free node
+const specData = createSpecData([
+  createNode(1, { currencyId: 1, maxRanks: 2 }),
+  createNode(2, { currencyId: 1 }),
+  createNode(3, { currencyId: 1 }),
+  createNode(4, { currencyId: 2 }),
+  createNode(5),
+], {
+  gates: [{ id: 10, currencyId: 1, requiredPoints: 3, nodeIds: [3] }],
+})
+
+describe('getGateProgress', () => {
+  it('should count ranks in the gate currency outside the gated nodes', () => {
+    const spent = getGateProgress(specData.gates![0], specData, node => node.maxRanks)
+    expect(spent).toBe(3)
+  })
+})
+
+describe('getGateStatuses', () => {
+  it('should open a gate once enough points are spent before it', () => {
+    expect(getGateStatuses([taken(0), taken(1), taken(2)], specData)).toEqual([
+      { gate: specData.gates![0], spent: 3, isMet: true },
+    ])
+  })
+
+  it('should count partial ranks and ignore other currencies', () => {
+    const [status] = getGateStatuses([taken(0, { isPartiallyRanked: true, ranksPurchased: 1 }), taken(1), taken(3), taken(4)], specData)
+    expect(status).toMatchObject({ spent: 2, isMet: false })
+  })
+
+  it('should not count granted nodes', () => {
+    const [status] = getGateStatuses([taken(0), taken(1, { isPurchased: false })], specData)
+    expect(status.spent).toBe(2)
+  })
+
+  it('should report no gates for specs without gate data', () => {
+    expect(getGateStatuses([taken(0)], { ...specData, gates: undefined })).toEqual([])
+  })
+
+  it('should find every gate met by a complete in-game build', () => {
+    const realSpecData = marksmanship as SpecTalentData
+    const build = parseTalentString('C4PAAAAAAAAAAAAAAAAAAAAAAwCMwwohBwMYDAAAAAAAAYGzYGmxMzYGMmmxYGz22mZmZYmZYmZZwsMYGAAAzMGAMTbMMAbD')
+
+    expect(getGateStatuses(build.nodes, realSpecData).filter(status => !status.isMet)).toEqual([])
+    expect(validateBuild(build, realSpecData).filter(v => v.type === 'gate-locked')).toEqual([])
+  })
+})
@@ -0,0 +1,41 @@
+import type { SpecTalentData, TalentGateData, TalentNodeData } from '../data/types'
+import { isGrantedNode, type TalentNodeSelection } from './talentParser'
+
+export interface GateStatus {
+  gate: TalentGateData
+  spent: number // Points counting toward the gate
+  isMet: boolean
+}
+
+/**
+ * Points spent toward a gate: the ranks of nodes that cost the gate's currency,
+ * leaving out the nodes it locks (those can only be bought once it is open).
+ */
+export function getGateProgress(
+  gate: TalentGateData,
+  specData: SpecTalentData,
+  getRanks: (node: TalentNodeData) => number
+): number {
+  const locked = new Set(gate.nodeIds)
+  return specData.nodes
+    .filter(node => node.currencyId === gate.currencyId && !locked.has(node.id))
+    .reduce((total, node) => total + getRanks(node), 0)
+}
+
+/**
+ * Check which of a spec's point gates a build opens. Granted nodes are free, so they
+ * don't count toward any gate. Specs without gate data have no gates.
+ */
+export function getGateStatuses(selections: TalentNodeSelection[], specData: SpecTalentData): GateStatus[] {
+  const ranksByNodeId = new Map<number, number>()
+  for (const selection of selections) {
+    const node = specData.nodes[selection.nodeIndex]
+    if (!node || !selection.isSelected || isGrantedNode(selection)) continue
+    ranksByNodeId.set(node.id, selection.isPartiallyRanked ? (selection.ranksPurchased ?? 0) : node.maxRanks)
+  }
+
+  return (specData.gates ?? []).map(gate => {
+    const spent = getGateProgress(gate, specData, node => ranksByNodeId.get(node.id) ?? 0)
+    return { gate, spent, isMet: spent >= gate.requiredPoints }
+  })
+}
@@ -1,5 +1,13 @@
 import { describe, it, expect } from 'vitest'
-import { parseTalentString } from './talentParser'
+import { parseTalentString, serializeTalentString, type ParsedTalentData } from './talentParser'
+import {
+  InvalidBase64Error,
+  TrailingBitsError,
+  TruncatedHeaderError,
+  TruncatedNodeError,
+  UnsupportedVersionError,
+  formatErrorLocation,
+} from './talentStringErrors'
 
 // Sample Marksmanship Hunter talent string
 const SAMPLE_TALENT_STRING = 'C4PAAAAAAAAAAAAAAAAAAAAAAwCMwwohBwMYDAAAAAAAAYGzMzYbGzYMDGTzYMzYZbzMzMMzMMzsMGzywMDAAgxYAwoNwAsN'
@@ -115,4 +123,156 @@ describe('talentParser', () => {
       expect(selectedCount).toBe(67)
     })
   })
+
+  describe('serializeTalentString', () => {
+    it('should round-trip the sample talent string', () => {
+      const result = parseTalentString(SAMPLE_TALENT_STRING)
+      expect(serializeTalentString(result)).toBe(SAMPLE_TALENT_STRING)
+    })
+
+    it('should round-trip the user talent string', () => {
+      const result = parseTalentString(USER_TALENT_STRING)
+      expect(serializeTalentString(result)).toBe(USER_TALENT_STRING)
+    })
+
+    it('should preserve trailing bits that do not fill a whole byte', () => {
+      // 97 characters = 582 bits, which is not a multiple of 8
+      const oddLength = SAMPLE_TALENT_STRING + 'B'
+      const result = parseTalentString(oddLength)
+      expect(result.rawBytes).toHaveLength(73)
+      expect(serializeTalentString(result)).toBe(oddLength)
+    })
+
+    it('should produce a string that parses back to the same selections', () => {
+      const data: ParsedTalentData = {
+        version: 2,
+        specId: 254,
+        treeHash: '00'.repeat(16),
+        nodes: [
+          { nodeIndex: 0, isSelected: false },
+          { nodeIndex: 1, isSelected: true, isPurchased: false },
+          { nodeIndex: 2, isSelected: true, isPurchased: true, isPartiallyRanked: false, isChoiceNode: false },
+          { nodeIndex: 3, isSelected: true, isPurchased: true, isPartiallyRanked: true, ranksPurchased: 1, isChoiceNode: false },
+          { nodeIndex: 4, isSelected: true, isPurchased: true, isPartiallyRanked: false, isChoiceNode: true, choiceEntryIndex: 1 },
+        ],
+        rawBytes: [],
+      }
+
+      const result = parseTalentString(serializeTalentString(data))
+
+      expect(result.version).toBe(2)
+      expect(result.specId).toBe(254)
+      expect(result.treeHash).toBe(data.treeHash)
+      expect(result.nodes.slice(0, data.nodes.length)).toEqual(data.nodes)
+      // Anything after the last node is zero padding
+      expect(result.nodes.slice(data.nodes.length).every(n => !n.isSelected)).toBe(true)
+    })
+
+    it('should reject a malformed tree hash', () => {
+      const data = { ...parseTalentString(SAMPLE_TALENT_STRING), treeHash: 'test-hash' }
+      expect(() => serializeTalentString(data)).toThrow(/Invalid tree hash/)
+    })
+
+    it('should reject values that do not fit their bit width', () => {
+      const data = parseTalentString(SAMPLE_TALENT_STRING)
+      const nodes = data.nodes.map(n => n.isChoiceNode ? { ...n, choiceEntryIndex: 4 } : n)
+      expect(() => serializeTalentString({ ...data, nodes })).toThrow(/does not fit in 2 bits/)
+    })
+  })
+
+  describe('parse errors', () => {
+    // Header with version 2, spec 254 and an empty tree hash, followed by the given node bits
+    function createString(nodeBits: number[], version = 2): string {
+      const data: ParsedTalentData = {
+        version: 2,
+        specId: 254,
+        treeHash: '00'.repeat(16),
+        nodes: [],
+        rawBytes: [],
+      }
+      const header = serializeTalentString(data)
+      // The header is 152 bits: 25 full characters plus 2 bits in the 26th
+      const bits = [...Array(2).fill(0), ...nodeBits]
+      // The low six bits of the version byte are the first character
+      const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+      let output = alphabet[version & 63] + header.slice(1, 25)
+      for (let i = 0; i < bits.length; i += 6) {
+        const chunk = bits.slice(i, i + 6)
+        const value = chunk.reduce((acc, bit, j) => acc | (bit << j), 0)
+        output += alphabet[value]
+      }
+      return output
+    }
+
+    it('should report the position of an invalid character', () => {
+      const error = captureError(() => parseTalentString('C4PA!AAA'))
+
+      expect(error).toBeInstanceOf(InvalidBase64Error)
+      expect((error as InvalidBase64Error).characterOffset).toBe(4)
+      expect((error as InvalidBase64Error).bitOffset).toBe(24)
+      expect(error.message).toMatch(/position 5/)
+    })
+
+    it('should report a truncated header', () => {
+      const error = captureError(() => parseTalentString('C4PAAAAA'))
+
+      expect(error).toBeInstanceOf(TruncatedHeaderError)
+      expect((error as TruncatedHeaderError).bitOffset).toBe(48)
+      expect((error as TruncatedHeaderError).byteOffset).toBe(6)
+    })
+
+    it('should reject unsupported versions', () => {
+      const error = captureError(() => parseTalentString(createString([0, 0, 0, 0], 3)))
+
+      expect(error).toBeInstanceOf(UnsupportedVersionError)
+      expect((error as UnsupportedVersionError).version).toBe(3)
+      expect(error.message).toMatch(/Unsupported talent string version 3/)
+    })
+
+    it('should report the node whose record is cut off', () => {
+      // Node 0 unselected, node 1 selected and purchased, but the rank/choice bits are missing
+      const error = captureError(() => parseTalentString(createString([0, 1, 1, 0])))
+
+      expect(error).toBeInstanceOf(TruncatedNodeError)
+      expect((error as TruncatedNodeError).nodeIndex).toBe(1)
+      expect((error as TruncatedNodeError).bitOffset).toBe(153)
+      expect(formatErrorLocation(error as TruncatedNodeError)).toBe('node 1, bit 153 (byte 19)')
+    })
+
+    it('should read exactly nodeCount nodes when given', () => {
+      const result = parseTalentString(createString([1, 1, 0, 0, 0, 0]), { nodeCount: 2 })
+
+      expect(result.nodes).toHaveLength(2)
+      expect(result.nodes[0]).toMatchObject({ isSelected: true, isPurchased: true })
+    })
+
+    it('should report a string that is too short for nodeCount', () => {
+      const error = captureError(() => parseTalentString(createString([0, 0, 0, 0]), { nodeCount: 10 }))
+
+      expect(error).toBeInstanceOf(TruncatedNodeError)
+      expect((error as TruncatedNodeError).nodeIndex).toBe(4)
+    })
+
+    it('should report data after the last node', () => {
+      const error = captureError(() => parseTalentString(createString([0, 0, 1, 0]), { nodeCount: 2 }))
+
+      expect(error).toBeInstanceOf(TrailingBitsError)
+      expect((error as TrailingBitsError).bitOffset).toBe(154)
+      expect((error as TrailingBitsError).trailingBits).toBe(2)
+    })
+
+    it('should reject more than one character of trailing data', () => {
+      const error = captureError(() => parseTalentString(createString(Array(12).fill(0)), { nodeCount: 2 }))
+      expect(error).toBeInstanceOf(TrailingBitsError)
+    })
+  })
 })
+
+function captureError(fn: () => unknown): Error {
+  try {
+    fn()
+  } catch (e) {
+    return e as Error
+  }
+  throw new Error('Expected function to throw')
+}
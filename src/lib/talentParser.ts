@@ -5,15 +5,23 @@
  * - Version (8 bits)
  * - Spec ID (16 bits)
  * - Tree Hash (128 bits = 16 bytes)
- * - Per-node data (variable length, bit-packed):
- *   - isNodeSelected (1 bit)
- *   - if selected: isNodePurchased (1 bit)
- *   - if purchased: isPartiallyRanked (1 bit)
- *   - if partially ranked: ranksPurchased (6 bits)
- *   - if purchased: isChoiceNode (1 bit)
- *   - if choice: choiceEntryIndex (2 bits)
+ * - Per-node data (variable length, bit-packed), laid out according to the
+ *   version - see talentStringVersions.ts
+ *
+ * The bits are packed least-significant first, six per base64 character, so the
+ * final character may carry a few padding bits after the last node.
  */
 
+import {
+  InvalidBase64Error,
+  TalentStringError,
+  TrailingBitsError,
+  TruncatedHeaderError,
+  TruncatedNodeError,
+} from './talentStringErrors'
+import { BitReader, BitWriter } from './bitStream'
+import { getTalentStringFormat } from './talentStringVersions'
+
 export interface TalentNodeSelection {
   nodeIndex: number
   isSelected: boolean
@@ -24,6 +32,11 @@ export interface TalentNodeSelection {
   choiceEntryIndex?: number
 }
 
+// Granted nodes are selected for free by the game rather than bought with points
+export function isGrantedNode(selection: TalentNodeSelection): boolean {
+  return selection.isSelected && selection.isPurchased === false
+}
+
 export interface ParsedTalentData {
   version: number
   specId: number
@@ -76,100 +89,88 @@ const SPEC_NAMES: Record<number, string> = {
   1473: 'Augmentation Evoker',
 }
 
-class BitReader {
-  private data: Uint8Array
-  private bitPosition: number = 0
-
-  constructor(data: Uint8Array) {
-    this.data = data
-  }
-
-  readBits(numBits: number): number {
-    let result = 0
-    for (let i = 0; i < numBits; i++) {
-      const byteIndex = Math.floor(this.bitPosition / 8)
-      const bitIndex = this.bitPosition % 8
-
-      if (byteIndex >= this.data.length) {
-        return result // Return partial result if we run out of data
-      }
-
-      const bit = (this.data[byteIndex] >> bitIndex) & 1
-      result |= bit << i
-      this.bitPosition++
-    }
-    return result
-  }
+const HEADER_BITS = 8 + 16 + 128
 
-  readBit(): boolean {
-    return this.readBits(1) === 1
-  }
-
-  get bitsRemaining(): number {
-    return this.data.length * 8 - this.bitPosition
-  }
-
-  get currentPosition(): number {
-    return this.bitPosition
-  }
+export interface ParseOptions {
+  // Number of nodes in the spec's tree. When given, exactly this many nodes are read
+  // and anything left over beyond the final character's padding is an error.
+  nodeCount?: number
 }
 
-function decodeBase64(input: string): Uint8Array {
-  // WoW uses standard base64 alphabet
-  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+// WoW uses standard base64 alphabet
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
 
+function decodeBase64(input: string): { bytes: Uint8Array; bitLength: number } {
   // Create reverse lookup
   const lookup: Record<string, number> = {}
-  for (let i = 0; i < alphabet.length; i++) {
-    lookup[alphabet[i]] = i
+  for (let i = 0; i < BASE64_ALPHABET.length; i++) {
+    lookup[BASE64_ALPHABET[i]] = i
   }
 
   // Remove any whitespace
   const cleanInput = input.replace(/\s/g, '')
 
-  // Calculate output length
-  const outputLength = Math.floor((cleanInput.length * 6) / 8)
-  const output = new Uint8Array(outputLength)
+  // Every character carries 6 bits; keep the trailing partial byte so no bits are lost
+  const bitLength = cleanInput.length * 6
+  const output = new Uint8Array(Math.ceil(bitLength / 8))
 
   let bitBuffer = 0
   let bitsInBuffer = 0
   let outputIndex = 0
 
-  for (const char of cleanInput) {
+  for (let i = 0; i < cleanInput.length; i++) {
+    const char = cleanInput[i]
     const value = lookup[char]
     if (value === undefined) {
-      throw new Error(`Invalid character in talent string: ${char}`)
+      throw new InvalidBase64Error(char, i)
     }
 
     bitBuffer |= value << bitsInBuffer
     bitsInBuffer += 6
 
-    while (bitsInBuffer >= 8 && outputIndex < outputLength) {
+    while (bitsInBuffer >= 8) {
       output[outputIndex++] = bitBuffer & 0xff
       bitBuffer >>= 8
       bitsInBuffer -= 8
     }
   }
 
+  if (bitsInBuffer > 0) {
+    output[outputIndex] = bitBuffer & 0xff
+  }
+
+  return { bytes: output, bitLength }
+}
+
+function encodeBase64(data: Uint8Array, bitLength: number): string {
+  const reader = new BitReader(data, bitLength)
+  let output = ''
+
+  // The last character is zero-padded when bitLength is not a multiple of 6
+  while (reader.bitsRemaining > 0) {
+    output += BASE64_ALPHABET[reader.readBits(Math.min(6, reader.bitsRemaining))]
+  }
+
   return output
 }
 
-export function parseTalentString(talentString: string): ParsedTalentData {
+export function parseTalentString(talentString: string, options: ParseOptions = {}): ParsedTalentData {
   // Decode the base64 string
-  const bytes = decodeBase64(talentString.trim())
+  const { bytes, bitLength } = decodeBase64(talentString.trim())
 
   // Store raw bytes for debugging
   const rawBytes = Array.from(bytes)
 
-  if (bytes.length < 19) {
-    throw new Error(`Talent string too short - got ${bytes.length} bytes, expected at least 19`)
+  if (bitLength < HEADER_BITS) {
+    throw new TruncatedHeaderError(bitLength, HEADER_BITS)
   }
 
-  const reader = new BitReader(bytes)
+  const reader = new BitReader(bytes, bitLength)
 
   // Read header (152 bits total)
   // Version: 8 bits
   const version = reader.readBits(8)
+  const format = getTalentStringFormat(version)
 
   // Spec ID: 16 bits
   const specId = reader.readBits(16)
@@ -186,42 +187,34 @@ export function parseTalentString(talentString: string): ParsedTalentData {
   // Each node has variable-length encoding based on its selection state
   const nodes: TalentNodeSelection[] = []
   let nodeIndex = 0
-
-  while (reader.bitsRemaining >= 1) {
-    const isSelected = reader.readBit()
-
-    const node: TalentNodeSelection = {
-      nodeIndex,
-      isSelected,
-    }
-
-    if (isSelected) {
-      // Is this node purchased (vs granted free)?
-      node.isPurchased = reader.readBit()
-
-      if (node.isPurchased) {
-        // Is it partially ranked?
-        node.isPartiallyRanked = reader.readBit()
-
-        if (node.isPartiallyRanked) {
-          // Read the number of ranks purchased (6 bits)
-          node.ranksPurchased = reader.readBits(6)
-        }
-
-        // Is this a choice node?
-        node.isChoiceNode = reader.readBit()
-
-        if (node.isChoiceNode) {
-          // Read choice entry index (2 bits)
-          node.choiceEntryIndex = reader.readBits(2)
-        }
+  const hasMoreNodes = () => options.nodeCount !== undefined
+    ? nodeIndex < options.nodeCount
+    : reader.bitsRemaining >= 1
+
+  while (hasMoreNodes()) {
+    const nodeStart = reader.currentPosition
+
+    try {
+      nodes.push(format.readNode(reader, nodeIndex))
+    } catch (e) {
+      if (e instanceof TalentStringError) {
+        throw new TruncatedNodeError(nodeIndex, nodeStart)
       }
+      throw e
     }
 
-    nodes.push(node)
     nodeIndex++
   }
 
+  // Only the final character's zero padding may follow the last node
+  if (options.nodeCount !== undefined) {
+    const trailingStart = reader.currentPosition
+    const trailingBits = reader.bitsRemaining
+    if (trailingBits >= 6 || (trailingBits > 0 && reader.readBits(trailingBits) !== 0)) {
+      throw new TrailingBitsError(trailingStart, trailingBits)
+    }
+  }
+
   return {
     version,
     specId,
@@ -232,6 +225,35 @@ export function parseTalentString(talentString: string): ParsedTalentData {
   }
 }
 
+/**
+ * Encode parsed talent data back into an export string.
+ * This mirrors parseTalentString bit for bit, so parsing a string and serializing
+ * the result yields the original string. Nodes are written in array order, which
+ * must match the tree's node order.
+ */
+export function serializeTalentString(data: ParsedTalentData): string {
+  if (!/^[0-9a-f]{32}$/i.test(data.treeHash)) {
+    throw new Error(`Invalid tree hash: expected 32 hex characters, got "${data.treeHash}"`)
+  }
+
+  const format = getTalentStringFormat(data.version)
+  const writer = new BitWriter()
+
+  // Header: version, spec ID, tree hash
+  writer.writeBits(data.version, 8)
+  writer.writeBits(data.specId, 16)
+  for (let i = 0; i < 32; i += 2) {
+    writer.writeBits(parseInt(data.treeHash.slice(i, i + 2), 16), 8)
+  }
+
+  // Per-node data, using the same layout the parser reads for this version
+  for (const node of data.nodes) {
+    format.writeNode(writer, node)
+  }
+
+  return encodeBase64(writer.toBytes(), writer.bitLength)
+}
+
 // Debug helper to show hex dump
 export function hexDump(bytes: number[]): string {
   return bytes.map(b => b.toString(16).padStart(2, '0')).join(' ')
@@ -0,0 +1,101 @@
+/**
+ * Errors thrown while decoding a talent string.
+ *
+ * Every error records where decoding stopped: the bit offset into the decoded data
+ * (and the byte it falls in), and the index of the node being read, if any.
+ */
+
+export interface TalentStringErrorLocation {
+  bitOffset?: number
+  nodeIndex?: number
+}
+
+export class TalentStringError extends Error {
+  readonly bitOffset?: number
+  readonly nodeIndex?: number
+
+  constructor(message: string, location: TalentStringErrorLocation = {}) {
+    super(message)
+    this.name = 'TalentStringError'
+    this.bitOffset = location.bitOffset
+    this.nodeIndex = location.nodeIndex
+  }
+
+  get byteOffset(): number | undefined {
+    return this.bitOffset === undefined ? undefined : Math.floor(this.bitOffset / 8)
+  }
+}
+
+/** The string contains a character outside the base64 alphabet */
+export class InvalidBase64Error extends TalentStringError {
+  readonly character: string
+  readonly characterOffset: number
+
+  constructor(character: string, characterOffset: number) {
+    super(`Invalid character in talent string: ${character} (position ${characterOffset + 1})`, {
+      bitOffset: characterOffset * 6,
+    })
+    this.name = 'InvalidBase64Error'
+    this.character = character
+    this.characterOffset = characterOffset
+  }
+}
+
+/** The string ends before the version, spec ID and tree hash have been read */
+export class TruncatedHeaderError extends TalentStringError {
+  constructor(bitLength: number, headerBits: number) {
+    super(
+      `Talent string too short - got ${Math.floor(bitLength / 8)} bytes, expected at least ${Math.ceil(headerBits / 8)}`,
+      { bitOffset: bitLength }
+    )
+    this.name = 'TruncatedHeaderError'
+  }
+}
+
+/** The serialization version in the header is not one this parser can decode */
+export class UnsupportedVersionError extends TalentStringError {
+  readonly version: number
+
+  constructor(version: number, supportedVersions: number[]) {
+    super(
+      `Unsupported talent string version ${version} (supported: ${supportedVersions.join(', ')})`,
+      { bitOffset: 0 }
+    )
+    this.name = 'UnsupportedVersionError'
+    this.version = version
+  }
+}
+
+/** The string ends partway through a node's record */
+export class TruncatedNodeError extends TalentStringError {
+  constructor(nodeIndex: number, bitOffset: number) {
+    super(`Talent string ends in the middle of node ${nodeIndex}`, { bitOffset, nodeIndex })
+    this.name = 'TruncatedNodeError'
+  }
+}
+
+/** Data remains after the last node of the tree, beyond the final character's padding */
+export class TrailingBitsError extends TalentStringError {
+  readonly trailingBits: number
+
+  constructor(bitOffset: number, trailingBits: number) {
+    super(`Talent string has ${trailingBits} unexpected bits after the last node`, { bitOffset })
+    this.name = 'TrailingBitsError'
+    this.trailingBits = trailingBits
+  }
+}
+
+/**
+ * Describe where a talent string error occurred, e.g. "node 42, bit 301 (byte 37)".
+ * Returns null if the error has no location.
+ */
+export function formatErrorLocation(error: TalentStringError): string | null {
+  const parts: string[] = []
+  if (error.nodeIndex !== undefined) {
+    parts.push(`node ${error.nodeIndex}`)
+  }
+  if (error.bitOffset !== undefined) {
+    parts.push(`bit ${error.bitOffset} (byte ${error.byteOffset})`)
+  }
+  return parts.length > 0 ? parts.join(', ') : null
+}
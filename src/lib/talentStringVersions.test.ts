@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest'
+import { BitReader, BitWriter } from './bitStream'
+import { parseTalentString, serializeTalentString, type ParsedTalentData, type TalentNodeSelection } from './talentParser'
+import { SUPPORTED_VERSIONS, getTalentStringFormat } from './talentStringVersions'
+import { UnsupportedVersionError } from './talentStringErrors'
+
+// Write a node with the given version's layout and return its bits, first bit first
+function writeNodeBits(version: number, node: TalentNodeSelection): number[] {
+  const writer = new BitWriter()
+  getTalentStringFormat(version).writeNode(writer, node)
+
+  const reader = new BitReader(writer.toBytes(), writer.bitLength)
+  const bits: number[] = []
+  while (reader.bitsRemaining > 0) {
+    bits.push(reader.readBits(1))
+  }
+  return bits
+}
+
+function readNodeBits(version: number, bits: number[]): TalentNodeSelection {
+  const writer = new BitWriter()
+  bits.forEach(bit => writer.writeBits(bit, 1))
+  return getTalentStringFormat(version).readNode(new BitReader(writer.toBytes(), writer.bitLength), 0)
+}
+
+describe('talentStringVersions', () => {
+  it('should support versions 1 and 2', () => {
+    expect(SUPPORTED_VERSIONS).toEqual([1, 2])
+  })
+
+  it('should reject unknown versions', () => {
+    expect(() => getTalentStringFormat(0)).toThrow(UnsupportedVersionError)
+    expect(() => getTalentStringFormat(3)).toThrow(/Unsupported talent string version 3 \(supported: 1, 2\)/)
+  })
+
+  it('should refuse to serialize an unknown version', () => {
+    const data: ParsedTalentData = {
+      version: 3,
+      specId: 254,
+      treeHash: '00'.repeat(16),
+      nodes: [],
+      rawBytes: [],
+    }
+    expect(() => serializeTalentString(data)).toThrow(UnsupportedVersionError)
+  })
+
+  describe.each([1, 2])('version %i', version => {
+    it('should use 6 rank bits and 2 choice bits', () => {
+      const format = getTalentStringFormat(version)
+      expect(format.rankBits).toBe(6)
+      expect(format.choiceBits).toBe(2)
+    })
+
+    it('should encode an unselected node as a single bit', () => {
+      expect(writeNodeBits(version, { nodeIndex: 0, isSelected: false })).toEqual([0])
+    })
+
+    it('should encode a granted node as selected but not purchased', () => {
+      const node = { nodeIndex: 0, isSelected: true, isPurchased: false }
+      expect(writeNodeBits(version, node)).toEqual([1, 0])
+      expect(readNodeBits(version, [1, 0])).toEqual(node)
+    })
+
+    it('should encode a fully ranked node', () => {
+      const node = { nodeIndex: 0, isSelected: true, isPurchased: true, isPartiallyRanked: false, isChoiceNode: false }
+      expect(writeNodeBits(version, node)).toEqual([1, 1, 0, 0])
+      expect(readNodeBits(version, [1, 1, 0, 0])).toEqual(node)
+    })
+
+    it('should encode partial ranks least significant bit first', () => {
+      const node = {
+        nodeIndex: 0,
+        isSelected: true,
+        isPurchased: true,
+        isPartiallyRanked: true,
+        ranksPurchased: 5,
+        isChoiceNode: false,
+      }
+      const bits = [1, 1, 1, 1, 0, 1, 0, 0, 0, 0]
+      expect(writeNodeBits(version, node)).toEqual(bits)
+      expect(readNodeBits(version, bits)).toEqual(node)
+    })
+
+    it('should encode the chosen entry of a choice node', () => {
+      const node = {
+        nodeIndex: 0,
+        isSelected: true,
+        isPurchased: true,
+        isPartiallyRanked: false,
+        isChoiceNode: true,
+        choiceEntryIndex: 1,
+      }
+      const bits = [1, 1, 0, 1, 1, 0]
+      expect(writeNodeBits(version, node)).toEqual(bits)
+      expect(readNodeBits(version, bits)).toEqual(node)
+    })
+
+    it('should round trip a full string', () => {
+      const data: ParsedTalentData = {
+        version,
+        specId: 254,
+        treeHash: '00'.repeat(16),
+        nodes: [
+          { nodeIndex: 0, isSelected: true, isPurchased: true, isPartiallyRanked: false, isChoiceNode: false },
+          { nodeIndex: 1, isSelected: false },
+          { nodeIndex: 2, isSelected: true, isPurchased: true, isPartiallyRanked: false, isChoiceNode: true, choiceEntryIndex: 1 },
+        ],
+        rawBytes: [],
+      }
+
+      const result = parseTalentString(serializeTalentString(data), { nodeCount: 3 })
+
+      expect(result.version).toBe(version)
+      expect(result.nodes).toEqual(data.nodes)
+    })
+  })
+})
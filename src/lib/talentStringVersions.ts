@@ -0,0 +1,104 @@
+import type { TalentNodeSelection } from './talentParser'
+import type { BitReader, BitWriter } from './bitStream'
+import { UnsupportedVersionError } from './talentStringErrors'
+
+/**
+ * Per-node bit layout of one talent string serialization version.
+ * The header (version, spec ID, tree hash) is shared by every version.
+ */
+export interface TalentStringFormat {
+  version: number
+  rankBits: number // Width of the purchased-ranks field
+  choiceBits: number // Width of the choice entry index field
+  readNode(reader: BitReader, nodeIndex: number): TalentNodeSelection
+  writeNode(writer: BitWriter, node: TalentNodeSelection): void
+}
+
+/**
+ * The layout used since the Dragonflight talent system launched:
+ * - isNodeSelected (1 bit)
+ * - if selected: isNodePurchased (1 bit)
+ * - if purchased: isPartiallyRanked (1 bit)
+ * - if partially ranked: ranksPurchased (6 bits)
+ * - if purchased: isChoiceNode (1 bit)
+ * - if choice: choiceEntryIndex (2 bits)
+ */
+function createSelectionFormat(version: number): TalentStringFormat {
+  const rankBits = 6
+  const choiceBits = 2
+
+  return {
+    version,
+    rankBits,
+    choiceBits,
+
+    readNode(reader, nodeIndex) {
+      const isSelected = reader.readBit()
+
+      const node: TalentNodeSelection = {
+        nodeIndex,
+        isSelected,
+      }
+
+      if (isSelected) {
+        // Is this node purchased (vs granted free)?
+        node.isPurchased = reader.readBit()
+
+        if (node.isPurchased) {
+          // Is it partially ranked?
+          node.isPartiallyRanked = reader.readBit()
+
+          if (node.isPartiallyRanked) {
+            node.ranksPurchased = reader.readBits(rankBits)
+          }
+
+          // Is this a choice node?
+          node.isChoiceNode = reader.readBit()
+
+          if (node.isChoiceNode) {
+            node.choiceEntryIndex = reader.readBits(choiceBits)
+          }
+        }
+      }
+
+      return node
+    },
+
+    writeNode(writer, node) {
+      writer.writeBit(node.isSelected)
+      if (!node.isSelected) return
+
+      writer.writeBit(node.isPurchased ?? false)
+      if (!node.isPurchased) return
+
+      writer.writeBit(node.isPartiallyRanked ?? false)
+      if (node.isPartiallyRanked) {
+        writer.writeBits(node.ranksPurchased ?? 0, rankBits)
+      }
+
+      writer.writeBit(node.isChoiceNode ?? false)
+      if (node.isChoiceNode) {
+        writer.writeBits(node.choiceEntryIndex ?? 0, choiceBits)
+      }
+    },
+  }
+}
+
+// Every serialization version we can read and write; 1 and 2 share the same node layout
+const FORMATS = new Map<number, TalentStringFormat>(
+  [createSelectionFormat(1), createSelectionFormat(2)].map(format => [format.version, format])
+)
+
+export const SUPPORTED_VERSIONS: readonly number[] = [...FORMATS.keys()]
+
+/**
+ * Look up the node layout for a serialization version.
+ * Throws UnsupportedVersionError for versions this parser doesn't know.
+ */
+export function getTalentStringFormat(version: number): TalentStringFormat {
+  const format = FORMATS.get(version)
+  if (!format) {
+    throw new UnsupportedVersionError(version, [...SUPPORTED_VERSIONS])
+  }
+  return format
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { getNodeSections } from './treeSections'
+import { createNode, createSpecData } from '../test/fixtures'
+
+describe('getNodeSections', () => {
+  it('should split class and spec nodes at the largest X gap', () => {
+    const specData = createSpecData([
+      createNode(1, { posX: 1000, posY: 100 }),
+      createNode(2, { posX: 1600, posY: 200 }),
+      createNode(3, { posX: 9000, posY: 100 }),
+      createNode(4, { posX: 9600, posY: 200 }),
+    ])
+
+    const sections = getNodeSections(specData)
+
+    expect(sections.get(1)).toBe('class')
+    expect(sections.get(2)).toBe('class')
+    expect(sections.get(3)).toBe('spec')
+    expect(sections.get(4)).toBe('spec')
+  })
+
+  it('should classify hero tree nodes and selector nodes as hero', () => {
+    const specData = createSpecData([
+      createNode(1, { posX: 1000, posY: 100 }),
+      createNode(2, { posX: 5000, posY: 100 }), // Hero node between the class and spec trees
+      createNode(3, { posX: 5000, posY: 50, type: 3 }), // Hero tree selector
+      createNode(4, { posX: 9000, posY: 100 }),
+    ], { heroTrees: [{ id: 42, name: 'Sentinel', nodeIds: [2] }] })
+
+    const sections = getNodeSections(specData)
+
+    expect(sections.get(2)).toBe('hero')
+    expect(sections.get(3)).toBe('hero')
+    // Hero nodes must not affect the class/spec split
+    expect(sections.get(1)).toBe('class')
+    expect(sections.get(4)).toBe('spec')
+  })
+
+  it('should use the sections recorded in the data over the layout', () => {
+    // A spec node left of a class node, which the X gap split would get wrong
+    const specData = createSpecData([
+      createNode(1, { posX: 1000, posY: 100, section: 'spec' }),
+      createNode(2, { posX: 9000, posY: 100, section: 'class' }),
+      createNode(3, { posX: 5000, posY: 100, section: 'hero' }),
+    ])
+
+    const sections = getNodeSections(specData)
+
+    expect(sections.get(1)).toBe('spec')
+    expect(sections.get(2)).toBe('class')
+    expect(sections.get(3)).toBe('hero')
+  })
+})
@@ -0,0 +1,52 @@
+import type { SpecTalentData, TreeSection } from '../data/types'
+
+export type { TreeSection } from '../data/types'
+
+/**
+ * Classifies every node in a spec's tree as class, spec, or hero, keyed by node ID.
+ *
+ * The data generator records each node's section from the game's own tables. Older
+ * snapshots don't have it, so their sections are inferred from the layout instead:
+ * hero nodes come from the hero tree data, with the hero tree selector nodes (type=3)
+ * grouped with them, and the remaining nodes are split into the class tree (left) and
+ * spec tree (right) at the largest gap between their X positions.
+ */
+export function getNodeSections(specData: SpecTalentData): Map<number, TreeSection> {
+  if (specData.nodes.every(node => node.section)) {
+    return new Map(specData.nodes.map(node => [node.id, node.section!]))
+  }
+
+  const heroNodeIds = new Set<number>()
+  for (const heroTree of specData.heroTrees ?? []) {
+    heroTree.nodeIds.forEach(id => heroNodeIds.add(id))
+  }
+
+  const isHeroNode = (node: SpecTalentData['nodes'][number]) =>
+    node.type === 3 || heroNodeIds.has(node.id)
+
+  // Find the largest gap in non-hero X positions to separate class from spec tree
+  const xPositions = [...new Set(
+    specData.nodes.filter(n => !isHeroNode(n)).map(n => n.posX)
+  )].sort((a, b) => a - b)
+
+  let maxGap = 0
+  let separatorX = 0
+  for (let i = 1; i < xPositions.length; i++) {
+    const gap = xPositions[i] - xPositions[i - 1]
+    if (gap > maxGap) {
+      maxGap = gap
+      separatorX = (xPositions[i] + xPositions[i - 1]) / 2
+    }
+  }
+
+  const sections = new Map<number, TreeSection>()
+  for (const node of specData.nodes) {
+    if (isHeroNode(node)) {
+      sections.set(node.id, 'hero')
+    } else {
+      sections.set(node.id, node.posX < separatorX ? 'class' : 'spec')
+    }
+  }
+
+  return sections
+}
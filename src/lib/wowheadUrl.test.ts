@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import { createWowheadUrl, findWowheadSpec, parseWowheadUrl, toWowheadSlug, WowheadUrlError } from './wowheadUrl'
+import type { SpecIndex } from '../data/types'
+
+const TALENT_STRING = 'C4PAAAAAAAAAAAAAAAAAAAAAAwCMwwohBwMYDAAAAAAAAYGzMzYbGzYMDGTzYMzYZbzMzMMzMMzsMGzywMDAAgxYAwoNwAsN'
+
+const specIndex: SpecIndex[] = [
+  { specId: 251, specName: 'Frost', className: 'Death Knight', nodeCount: 0 },
+  { specId: 253, specName: 'Beast Mastery', className: 'Hunter', nodeCount: 0 },
+  { specId: 254, specName: 'Marksmanship', className: 'Hunter', nodeCount: 0 },
+]
+
+describe('parseWowheadUrl', () => {
+  it('should read the class, spec and build', () => {
+    expect(parseWowheadUrl(`https://www.wowhead.com/talent-calc/hunter/marksmanship/${TALENT_STRING}`)).toEqual({
+      classSlug: 'hunter',
+      specSlug: 'marksmanship',
+      talentString: TALENT_STRING,
+    })
+  })
+
+  it('should accept branch and locale prefixes', () => {
+    const link = parseWowheadUrl(`https://www.wowhead.com/ptr/talent-calc/death-knight/frost/${TALENT_STRING}`)
+    expect(link?.classSlug).toBe('death-knight')
+    expect(parseWowheadUrl(`wowhead.com/de/talent-calc/hunter/marksmanship/${TALENT_STRING}`)?.talentString).toBe(TALENT_STRING)
+  })
+
+  it('should keep slashes and decode escapes in the build', () => {
+    const link = parseWowheadUrl('https://www.wowhead.com/talent-calc/hunter/marksmanship/C4PA/AA%2BA?foo=1#bar')
+    expect(link?.talentString).toBe('C4PA/AA+A')
+  })
+
+  it('should read links that only carry the export string', () => {
+    expect(parseWowheadUrl(`https://www.wowhead.com/talent-calc/blizzard/${TALENT_STRING}`)).toEqual({
+      talentString: TALENT_STRING,
+    })
+  })
+
+  it('should ignore text that is not a talent calculator link', () => {
+    expect(parseWowheadUrl(TALENT_STRING)).toBeNull()
+    expect(parseWowheadUrl('https://www.wowhead.com/spell=19434')).toBeNull()
+  })
+
+  it('should reject links without a build', () => {
+    expect(() => parseWowheadUrl('https://www.wowhead.com/talent-calc/hunter/marksmanship')).toThrow(WowheadUrlError)
+  })
+})
+
+describe('findWowheadSpec', () => {
+  it('should match multi-word class and spec slugs', () => {
+    expect(findWowheadSpec({ classSlug: 'death-knight', specSlug: 'frost', talentString: '' }, specIndex)?.specId).toBe(251)
+    expect(findWowheadSpec({ classSlug: 'hunter', specSlug: 'beast-mastery', talentString: '' }, specIndex)?.specId).toBe(253)
+  })
+
+  it('should return null for unknown or missing slugs', () => {
+    expect(findWowheadSpec({ classSlug: 'hunter', specSlug: 'survival', talentString: '' }, specIndex)).toBeNull()
+    expect(findWowheadSpec({ talentString: '' }, specIndex)).toBeNull()
+  })
+})
+
+describe('createWowheadUrl', () => {
+  it('should slug class and spec names', () => {
+    expect(toWowheadSlug('Death Knight')).toBe('death-knight')
+    expect(createWowheadUrl('ABC', 'Hunter', 'Beast Mastery')).toBe(
+      'https://www.wowhead.com/talent-calc/hunter/beast-mastery/ABC'
+    )
+  })
+
+  it('should link PTR builds to the PTR calculator', () => {
+    expect(createWowheadUrl('ABC', 'Hunter', 'Marksmanship', 'ptr')).toBe(
+      'https://www.wowhead.com/ptr/talent-calc/hunter/marksmanship/ABC'
+    )
+  })
+
+  it('should round trip through parseWowheadUrl', () => {
+    const url = createWowheadUrl(TALENT_STRING, 'Hunter', 'Marksmanship')
+    expect(parseWowheadUrl(url)?.talentString).toBe(TALENT_STRING)
+  })
+})
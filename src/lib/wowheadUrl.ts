@@ -0,0 +1,98 @@
+import type { SpecIndex } from '../data/types'
+
+/**
+ * Wowhead talent calculator links.
+ *
+ * The calculator embeds the in-game export string after the class and spec slugs:
+ *
+ *   https://www.wowhead.com/talent-calc/hunter/marksmanship/C4PAAAAA...
+ *   https://www.wowhead.com/ptr/talent-calc/death-knight/frost/CoPAAAAA...
+ *   https://www.wowhead.com/talent-calc/blizzard/C4PAAAAA...
+ *
+ * Export strings may contain "/", so everything after the slugs is the build.
+ */
+
+export interface WowheadTalentLink {
+  classSlug?: string // Missing for /talent-calc/blizzard/ links
+  specSlug?: string
+  talentString: string
+}
+
+const WOWHEAD_BASE_URL = 'https://www.wowhead.com'
+
+const TALENT_CALC_PATTERN = /^(?:https?:\/\/)?(?:[a-z]+\.)?wowhead\.com\/(?:[a-z-]+\/)*talent-calc\/(.*)$/i
+
+// Branches Wowhead hosts a separate calculator for
+const BRANCH_PATHS: Record<string, string> = {
+  ptr: 'ptr',
+  beta: 'beta',
+}
+
+export class WowheadUrlError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WowheadUrlError'
+  }
+}
+
+// Class and spec names as Wowhead writes them in URLs, e.g. "death-knight", "beast-mastery"
+export function toWowheadSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+}
+
+/**
+ * Read the class, spec and build out of a Wowhead talent calculator URL.
+ * Returns null if the text isn't a talent calculator URL; throws WowheadUrlError
+ * if it is one but doesn't contain a build.
+ */
+export function parseWowheadUrl(text: string): WowheadTalentLink | null {
+  const match = text.trim().match(TALENT_CALC_PATTERN)
+  if (!match) return null
+
+  // Drop any query string or fragment, then split the path into segments
+  const path = match[1].replace(/[?#].*$/, '')
+  let segments: string[]
+  try {
+    segments = path.split('/').map(segment => decodeURIComponent(segment))
+  } catch {
+    throw new WowheadUrlError('This Wowhead link is malformed')
+  }
+
+  if (segments[0] === 'blizzard') {
+    const talentString = segments.slice(1).join('/')
+    if (!talentString) {
+      throw new WowheadUrlError('This Wowhead link does not contain a build')
+    }
+    return { talentString }
+  }
+
+  const [classSlug, specSlug, ...rest] = segments
+  const talentString = rest.join('/')
+  if (!classSlug || !specSlug || !talentString) {
+    throw new WowheadUrlError('This Wowhead link does not contain a build')
+  }
+
+  return { classSlug, specSlug, talentString }
+}
+
+/**
+ * Find the spec named by a link's class and spec slugs.
+ * Returns null for links without slugs or with slugs that match no spec.
+ */
+export function findWowheadSpec(link: WowheadTalentLink, specIndex: SpecIndex[]): SpecIndex | null {
+  if (!link.classSlug || !link.specSlug) return null
+
+  return specIndex.find(spec =>
+    toWowheadSlug(spec.className) === link.classSlug!.toLowerCase() &&
+    toWowheadSlug(spec.specName) === link.specSlug!.toLowerCase()
+  ) ?? null
+}
+
+/**
+ * Create a Wowhead talent calculator link for an export string.
+ * PTR and beta builds link to the matching calculator.
+ */
+export function createWowheadUrl(talentString: string, className: string, specName: string, branch = 'live'): string {
+  const branchPath = BRANCH_PATHS[branch] ? `/${BRANCH_PATHS[branch]}` : ''
+  return `${WOWHEAD_BASE_URL}${branchPath}/talent-calc/${toWowheadSlug(className)}/${toWowheadSlug(specName)}/${talentString}`
+}
@@ -0,0 +1,106 @@
+import type { ParsedTalentData, TalentNodeSelection } from '../lib/talentParser'
+import type { SpecTalentData, TalentNodeData } from '../data/types'
+
+// Shared fixture factories for the unit tests. Entry IDs follow one scheme so
+// tests can predict them: entry i of node N has ID N*10+i, definition ID
+// N*100+i and spell ID N*1000+i.
+
+export interface NodeOptions extends Partial<Omit<TalentNodeData, 'id' | 'entries'>> {
+  names?: string[] // One entry per name; several names make a choice node
+}
+
+// Helper to create a node with one entry per name
+export function createNode(id: number, options: NodeOptions = {}): TalentNodeData {
+  const { names = [`Talent ${id}`], posX = 0, posY = 0, maxRanks = 1, type = names.length > 1 ? 2 : 0, ...rest } = options
+  return {
+    id,
+    posX,
+    posY,
+    type,
+    maxRanks,
+    entries: names.map((name, i) => ({
+      id: id * 10 + i,
+      definitionId: id * 100 + i,
+      spellId: id * 1000 + i,
+      name,
+      iconId: 0,
+      maxRanks,
+      entryIndex: i,
+    })),
+    ...rest,
+  }
+}
+
+// Helper to create a Marksmanship Hunter tree from the given nodes
+export function createSpecData(nodes: TalentNodeData[], overrides: Partial<SpecTalentData> = {}): SpecTalentData {
+  return {
+    specId: 254,
+    specName: 'Marksmanship',
+    className: 'Hunter',
+    treeId: 1,
+    nodes,
+    edges: [],
+    ...overrides,
+  }
+}
+
+// Helper to create a minimal ParsedTalentData
+export function createBuild(
+  specId: number,
+  nodes: TalentNodeSelection[],
+  specName?: string
+): ParsedTalentData {
+  return {
+    version: 2,
+    specId,
+    specName,
+    treeHash: '00'.repeat(16),
+    nodes,
+    rawBytes: [],
+  }
+}
+
+// Helper to create a node selection
+export function createSelection(
+  nodeIndex: number,
+  isSelected: boolean,
+  options?: {
+    isPurchased?: boolean
+    isPartiallyRanked?: boolean
+    ranksPurchased?: number
+    isChoiceNode?: boolean
+    choiceEntryIndex?: number
+  }
+): TalentNodeSelection {
+  return {
+    nodeIndex,
+    isSelected,
+    ...options,
+  }
+}
+
+// Helper to create a fully ranked, purchased selection
+export const taken = (nodeIndex: number, extra: Partial<TalentNodeSelection> = {}): TalentNodeSelection =>
+  ({ nodeIndex, isSelected: true, isPurchased: true, isPartiallyRanked: false, isChoiceNode: false, ...extra })
+
+// A picked node: its index, or the index with partial ranks, a choice entry or a granted flag
+export type Pick = number | { index: number; ranks?: number; choice?: number; granted?: boolean }
+
+// Helper to create a selection for every node of a tree, taking the picked ones
+export function pickNodes(specData: SpecTalentData, picks: Pick[]): TalentNodeSelection[] {
+  return specData.nodes.map((node, nodeIndex): TalentNodeSelection => {
+    const pick = picks
+      .map(p => typeof p === 'number' ? { index: p } : p)
+      .find(p => p.index === nodeIndex)
+    if (!pick) return { nodeIndex, isSelected: false }
+    return {
+      nodeIndex,
+      isSelected: true,
+      isPurchased: !pick.granted,
+      isPartiallyRanked: pick.ranks !== undefined,
+      ...(pick.ranks !== undefined ? { ranksPurchased: pick.ranks } : {}),
+      isChoiceNode: node.entries.length > 1,
+      ...(node.entries.length > 1 ? { choiceEntryIndex: pick.choice ?? 0 } : {}),
+    }
+  })
+}